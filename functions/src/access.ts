@@ -0,0 +1,100 @@
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { CHALLENGES_COLLECTION, repoRefFromChallenge } from "./challenges.js";
+import { deadlineStartUpdate } from "./deadlines.js";
+import { db } from "./firebaseAdmin.js";
+import type { AccessState, RepoHost, RepoRef } from "./repoHosts/index.js";
+
+// Candidate access to their private challenge repo: invited with push rights on that repo only,
+// tracked on the challenge record, and revoked by the syncCandidateAccess schedule once it expires.
+
+export type CandidateAccessState = AccessState | "failed" | "unsupported";
+
+export interface CandidateAccess {
+  username: string;
+  host: string;
+  state: CandidateAccessState;
+  invitationId: number | null;
+  expiresAt: Timestamp;
+  error: string | null;
+}
+
+// GitHub handles: alphanumerics and single hyphens, max 39 characters. GitLab also allows . and _.
+const HANDLE_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9._]|-(?=[A-Za-z0-9])){0,38}$/;
+
+export function isValidRepoUsername(handle: string): boolean {
+  return HANDLE_PATTERN.test(handle);
+}
+
+export function defaultAccessExpiry(now = Date.now()): Timestamp {
+  const days = Number(process.env.CANDIDATE_ACCESS_DAYS) || 7;
+  return Timestamp.fromMillis(now + days * 24 * 60 * 60 * 1000);
+}
+
+export async function inviteCandidate(
+  host: RepoHost,
+  repo: RepoRef,
+  username: string,
+  expiresAt: Timestamp
+): Promise<CandidateAccess> {
+  const base = { username, host: host.name, invitationId: null, expiresAt, error: null };
+  if (!host.grantAccess) {
+    return { ...base, state: "unsupported", error: `The ${host.name} repo host does not manage collaborators.` };
+  }
+  try {
+    const grant = await host.grantAccess(repo, username);
+    logger.info(`Invited ${username} to ${repo.fullName} state=${grant.state}`);
+    return { ...base, state: grant.state, invitationId: grant.invitationId ?? null };
+  } catch (err) {
+    // The repo is still usable; the interviewer can re-invite by hand.
+    logger.error(`Failed to invite ${username} to ${repo.fullName}`, err);
+    return { ...base, state: "failed", error: (err as Error).message || String(err) };
+  }
+}
+
+/**
+ * Refreshes pending invitations and revokes access that has expired. Only records on the
+ * currently configured host are touched; anything else is left for a run with that host.
+ */
+export async function syncCandidateAccess(host: RepoHost, now = Timestamp.now()): Promise<{ checked: number; revoked: number }> {
+  const snap = await db
+    .collection(CHALLENGES_COLLECTION)
+    .where("candidateAccess.state", "in", ["pending", "active"])
+    .get();
+
+  let checked = 0;
+  let revoked = 0;
+  for (const doc of snap.docs) {
+    const access = doc.get("candidateAccess") as CandidateAccess;
+    if (access.host !== host.name) continue;
+    const repo = repoRefFromChallenge(doc.data());
+    const grant = { state: access.state as AccessState, invitationId: access.invitationId ?? undefined };
+    checked++;
+
+    try {
+      if (access.expiresAt.toMillis() <= now.toMillis()) {
+        await host.revokeAccess?.(repo, access.username, grant);
+        await doc.ref.update({
+          "candidateAccess.state": "revoked",
+          "candidateAccess.revokedAt": FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        revoked++;
+        logger.info(`Revoked ${access.username} on ${repo.fullName} (expired)`);
+      } else if (host.accessState) {
+        const state = await host.accessState(repo, access.username, grant);
+        if (state !== access.state) {
+          // Accepting the invitation starts a time-limited session
+          await doc.ref.update({
+            "candidateAccess.state": state,
+            ...(state === "active" ? deadlineStartUpdate(doc.data()) : {}),
+            updatedAt: FieldValue.serverTimestamp(),
+          });
+        }
+      }
+    } catch (err) {
+      logger.error(`Access sync failed for challenge ${doc.id}`, err);
+    }
+  }
+  return { checked, revoked };
+}
@@ -0,0 +1,40 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { db } from "./firebaseAdmin.js";
+import type { ChallengeSpec, HiddenBug, RubricCriterion } from "./spec.js";
+
+// Interviewer-only answer key for a challenge: the planted bugs, full rubric and scoring notes.
+// Stored in `answerKeys/{challengeId}` so it never reaches the candidate's repo or README;
+// firestore.rules limit reads to the challenge owner.
+export const ANSWER_KEYS_COLLECTION = "answerKeys";
+
+export interface AnswerKey {
+  ownerUid: string;
+  challengeId: string;
+  hiddenBugs: HiddenBug[];
+  evaluationRubric: RubricCriterion[];
+  scoringNotes: string[];
+  testCommand: string | null;
+}
+
+export function answerKeyFromSpec(
+  spec: ChallengeSpec
+): Pick<AnswerKey, "hiddenBugs" | "evaluationRubric" | "scoringNotes" | "testCommand"> {
+  return {
+    hiddenBugs: spec.hiddenBugs,
+    evaluationRubric: spec.evaluationRubric,
+    scoringNotes: spec.scoringNotes || [],
+    testCommand: spec.testCommand || null,
+  };
+}
+
+export async function saveAnswerKey(key: AnswerKey): Promise<void> {
+  await db.collection(ANSWER_KEYS_COLLECTION).doc(key.challengeId).set({
+    ...key,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+}
+
+export async function loadAnswerKey(challengeId: string): Promise<AnswerKey | null> {
+  const snap = await db.collection(ANSWER_KEYS_COLLECTION).doc(challengeId).get();
+  return snap.exists ? (snap.data() as AnswerKey) : null;
+}
@@ -0,0 +1,41 @@
+import type { Request } from "firebase-functions/v2/https";
+import type { Response } from "express";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import * as logger from "firebase-functions/logger";
+import { adminAuth } from "./firebaseAdmin.js";
+import { isRole, Role } from "./roles.js";
+
+export interface AuthenticatedUser {
+  uid: string;
+  email?: string;
+  // From the `role` custom claim; null until an admin assigns one
+  role: Role | null;
+  token: DecodedIdToken;
+}
+
+/**
+ * Verifies the Firebase ID token sent as `Authorization: Bearer <token>`.
+ * Responds with 401 and returns null when the header is missing or the token is invalid,
+ * so handlers can simply `return` when no user comes back.
+ */
+export async function authenticateRequest(req: Request, res: Response): Promise<AuthenticatedUser | null> {
+  const header = req.headers.authorization || "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    res.set("WWW-Authenticate", "Bearer");
+    res.status(401).json({ error: "Missing Authorization bearer token. Sign in and try again." });
+    return null;
+  }
+
+  try {
+    // checkRevoked so disabled or signed-out-everywhere users are rejected immediately
+    const token = await adminAuth.verifyIdToken(match[1], true);
+    return { uid: token.uid, email: token.email, role: isRole(token.role) ? token.role : null, token };
+  } catch (err: unknown) {
+    const code = (err as { code?: string })?.code;
+    logger.warn("Rejected request with invalid ID token", { code });
+    res.set("WWW-Authenticate", 'Bearer error="invalid_token"');
+    res.status(401).json({ error: "Invalid or expired ID token. Sign in again." });
+    return null;
+  }
+}
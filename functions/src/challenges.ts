@@ -0,0 +1,132 @@
+import { DocumentData, FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { CandidateAccess } from "./access.js";
+import type { ChallengeDeadline } from "./deadlines.js";
+import { db } from "./firebaseAdmin.js";
+import type { GenerationOptions } from "./generationOptions.js";
+import type { JobDescriptionSource } from "./jobDescriptions.js";
+import type { LlmCost } from "./llmCalls.js";
+import type { PromptTemplateRef } from "./prompts/index.js";
+import type { RepoRef } from "./repoHosts/index.js";
+import type { SafetyFinding } from "./safety.js";
+import type { ChallengeSpecSummary } from "./spec.js";
+
+// Generated challenges live in the top-level `challenges` collection, one document per generation,
+// keyed to their owner by `ownerUid`. Only Cloud Functions write here and clients read their own
+// records directly. The record also holds what only the interviewer should see (generation
+// options, safety flags, costs), so candidates read a copy of the fields meant for them in
+// `candidateChallenges`, under the same id (see firestore.rules).
+export const CHALLENGES_COLLECTION = "challenges";
+export const CANDIDATE_CHALLENGES_COLLECTION = "candidateChallenges";
+
+export interface NewChallenge {
+  ownerUid: string;
+  inputFiles: {
+    resume: string | null;
+    jobDescription: string | null;
+  };
+  // Template id and version that produced the challenge, and the same as "id@version" for display
+  promptTemplate: PromptTemplateRef;
+  promptVersion: string;
+  model: string;
+  markdown: string;
+  // Validated structured spec (without file contents); null for README-only prompts
+  spec: ChallengeSpecSummary | null;
+  // Paths of the starter and test files committed alongside the README
+  files: string[];
+  // Which RepoHost backend holds the repo (github, gitlab, local) and its host-specific full name
+  repoHost: string;
+  repoFullName: string;
+  repoName: string;
+  defaultBranch: string;
+  // Branch the candidate works on and the scaffold commit pushed to it; evaluations diff against it
+  branch: string;
+  scaffoldCommitSha: string;
+  repoUrl: string;
+  branchUrl: string;
+  devUrl: string;
+  candidateAccess: CandidateAccess | null;
+  candidateEmail: string | null;
+  jobDescriptionSource: JobDescriptionSource | null;
+  // What the interviewer asked for; the spec records what the model produced
+  generationOptions: GenerationOptions;
+  // Safety findings recorded instead of rejected when SAFETY_MODE=flag
+  safetyFlags: SafetyFinding[];
+  // Tokens and cost of every model call made while generating, including retries
+  llmCost: LlmCost;
+  deadline: ChallengeDeadline | null;
+}
+
+export async function saveChallenge(challenge: NewChallenge): Promise<string> {
+  const ref = await db.collection(CHALLENGES_COLLECTION).add({
+    ...challenge,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export interface CandidateChallenge {
+  candidateEmail: string;
+  markdown: string;
+  spec: Pick<ChallengeSpecSummary, "title" | "stack" | "difficulty" | "estimatedMinutes"> | null;
+  repoName: string;
+  repoFullName: string;
+  repoUrl: string;
+  branchUrl: string;
+  devUrl: string;
+  deadline: ChallengeDeadline | null;
+  createdAt: Timestamp | null;
+}
+
+/** The candidate's copy of a stored challenge, or null when no candidate is assigned to it. */
+export function candidateChallengeView(data: DocumentData | undefined): CandidateChallenge | null {
+  if (!data?.candidateEmail) return null;
+  const spec = data.spec as ChallengeSpecSummary | null | undefined;
+  return {
+    candidateEmail: data.candidateEmail,
+    markdown: data.markdown ?? "",
+    spec: spec ? { title: spec.title, stack: spec.stack, difficulty: spec.difficulty, estimatedMinutes: spec.estimatedMinutes } : null,
+    repoName: data.repoName,
+    repoFullName: data.repoFullName,
+    repoUrl: data.repoUrl,
+    branchUrl: data.branchUrl,
+    devUrl: data.devUrl,
+    deadline: data.deadline ?? null,
+    createdAt: data.createdAt ?? null,
+  };
+}
+
+/**
+ * Brings `candidateChallenges/{challengeId}` in line with the challenge after it was written:
+ * creates or updates the copy while a candidate is assigned, deletes it otherwise. Returns false
+ * when nothing the candidate sees changed.
+ */
+export async function syncCandidateChallenge(
+  challengeId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): Promise<boolean> {
+  const previous = candidateChallengeView(before);
+  const next = candidateChallengeView(after);
+  if (JSON.stringify(previous) === JSON.stringify(next)) return false;
+  const ref = db.collection(CANDIDATE_CHALLENGES_COLLECTION).doc(challengeId);
+  if (next) {
+    await ref.set({ ...next, updatedAt: FieldValue.serverTimestamp() });
+  } else {
+    await ref.delete();
+  }
+  return true;
+}
+
+/** Rebuilds the host-level repo reference from a stored challenge record. */
+export function repoRefFromChallenge(data: DocumentData): RepoRef {
+  const fullName: string = data.repoFullName;
+  return {
+    host: data.repoHost,
+    owner: fullName.includes("/") ? fullName.slice(0, fullName.lastIndexOf("/")) : "local",
+    name: data.repoName,
+    fullName,
+    webUrl: data.repoUrl,
+    defaultBranch: data.defaultBranch || "main",
+  };
+}
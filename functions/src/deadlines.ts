@@ -0,0 +1,187 @@
+import { DocumentData, FieldValue, Timestamp } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { CHALLENGES_COLLECTION, repoRefFromChallenge } from "./challenges.js";
+import { db } from "./firebaseAdmin.js";
+import type { RepoHost } from "./repoHosts/index.js";
+
+// Challenge deadlines. Interviewers pick either a due date or a time limit; a time limit is a
+// session that starts when the candidate accepts their invitation (or at creation when nobody is
+// invited). The enforceDeadlines schedule locks the repo once the deadline passes, tags the final
+// commit and records whether the submission came in on time.
+
+export type DeadlineStatus = "pending" | "running" | "locked" | "failed";
+export type DeadlineOutcome = "onTime" | "late" | "noSubmission";
+
+export interface ChallengeDeadline {
+  kind: "dueDate" | "timeLimit";
+  // Only for time limits
+  minutes: number | null;
+  // Null until a time-limited session starts
+  startedAt: Timestamp | null;
+  dueAt: Timestamp | null;
+  status: DeadlineStatus;
+  lockedAt: Timestamp | null;
+  finalCommitSha: string | null;
+  finalTag: string | null;
+  outcome: DeadlineOutcome | null;
+  error: string | null;
+}
+
+export const DEADLINE_LIMITS = {
+  minMinutes: 15,
+  maxMinutes: 14 * 24 * 60,
+  // Due dates further out than this are almost certainly a typo
+  maxDueInDays: 90,
+};
+
+export const FINAL_TAG = "submission-final";
+
+export class DeadlineError extends Error {
+  readonly code = "INVALID_DEADLINE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "DeadlineError";
+  }
+}
+
+/**
+ * Reads the optional `time_limit_minutes` or `due_at` (ISO 8601) multipart fields.
+ * Returns null when neither is set; throws DeadlineError for anything unusable.
+ */
+export function parseDeadlineFields(fields: Record<string, string>, now = Date.now()): ChallengeDeadline | null {
+  const minutesField = (fields.time_limit_minutes || "").trim();
+  const dueField = (fields.due_at || "").trim();
+  if (minutesField && dueField) {
+    throw new DeadlineError("Set either a time limit or a due date, not both.");
+  }
+
+  const base = { startedAt: null, status: "pending" as const, lockedAt: null, finalCommitSha: null, finalTag: null, outcome: null, error: null };
+  if (minutesField) {
+    const minutes = Number(minutesField);
+    if (!Number.isInteger(minutes) || minutes < DEADLINE_LIMITS.minMinutes || minutes > DEADLINE_LIMITS.maxMinutes) {
+      throw new DeadlineError(
+        `Time limit must be a whole number of minutes between ${DEADLINE_LIMITS.minMinutes} and ${DEADLINE_LIMITS.maxMinutes}.`
+      );
+    }
+    return { ...base, kind: "timeLimit", minutes, dueAt: null };
+  }
+  if (dueField) {
+    const due = Date.parse(dueField);
+    if (Number.isNaN(due)) throw new DeadlineError(`"${dueField}" is not a valid date.`);
+    if (due <= now + DEADLINE_LIMITS.minMinutes * 60_000) {
+      throw new DeadlineError(`The due date must be at least ${DEADLINE_LIMITS.minMinutes} minutes in the future.`);
+    }
+    if (due > now + DEADLINE_LIMITS.maxDueInDays * 24 * 60 * 60_000) {
+      throw new DeadlineError(`The due date must be within ${DEADLINE_LIMITS.maxDueInDays} days.`);
+    }
+    return { ...base, kind: "dueDate", minutes: null, dueAt: Timestamp.fromMillis(due), status: "running" };
+  }
+  return null;
+}
+
+/** Starts the clock for a time-limited session; due dates are already running. */
+export function startDeadline(deadline: ChallengeDeadline, now = Timestamp.now()): ChallengeDeadline {
+  if (deadline.kind !== "timeLimit" || deadline.startedAt) return deadline;
+  return {
+    ...deadline,
+    status: "running",
+    startedAt: now,
+    dueAt: Timestamp.fromMillis(now.toMillis() + (deadline.minutes ?? 0) * 60_000),
+  };
+}
+
+/**
+ * Field updates that start a pending time-limited session on a stored challenge, if it has one.
+ * Candidate access that would expire before the new due time is extended to it, so the access
+ * sync cannot revoke the candidate mid-session.
+ */
+export function deadlineStartUpdate(challenge: DocumentData, now = Timestamp.now()): Record<string, unknown> {
+  const deadline = challenge.deadline as ChallengeDeadline | null | undefined;
+  if (!deadline || deadline.status !== "pending") return {};
+  const started = startDeadline(deadline, now);
+  const update: Record<string, unknown> = {
+    "deadline.status": started.status,
+    "deadline.startedAt": started.startedAt,
+    "deadline.dueAt": started.dueAt,
+  };
+  const access = challenge.candidateAccess as { expiresAt?: Timestamp } | null | undefined;
+  if (access?.expiresAt && started.dueAt && started.dueAt.toMillis() > access.expiresAt.toMillis()) {
+    update["candidateAccess.expiresAt"] = started.dueAt;
+  }
+  return update;
+}
+
+/** Candidate-facing README section describing the deadline. */
+export function deadlineNotice(deadline: ChallengeDeadline): string {
+  const rule = deadline.kind === "timeLimit"
+    ? `You have **${formatMinutes(deadline.minutes ?? 0)}** to complete this challenge, starting when you accept the repository invitation.`
+    : `This challenge is due **${deadline.dueAt?.toDate().toUTCString()}**.`;
+  return `## Deadline
+
+${rule} When time is up the repository becomes read-only and your last pushed commit is tagged as your submission. Work pushed after the deadline is not accepted.
+`;
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} day${minutes === 24 * 60 ? "" : "s"}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? "" : "s"}`;
+  return `${minutes} minutes`;
+}
+
+/**
+ * Locks every running challenge whose deadline has passed: tags the branch head, locks the repo
+ * and records the outcome. Only challenges on the configured host are touched.
+ */
+export async function enforceDeadlines(host: RepoHost, now = Timestamp.now()): Promise<{ locked: number; failed: number }> {
+  const snap = await db
+    .collection(CHALLENGES_COLLECTION)
+    .where("deadline.status", "==", "running")
+    .where("deadline.dueAt", "<=", now)
+    .get();
+
+  let locked = 0;
+  let failed = 0;
+  for (const doc of snap.docs) {
+    const data = doc.data();
+    if (data.repoHost !== host.name) continue;
+    const repo = repoRefFromChallenge(data);
+    const deadline = data.deadline as ChallengeDeadline;
+
+    try {
+      if (!host.lockRepo) {
+        throw new Error(`The ${host.name} repo host cannot lock repositories.`);
+      }
+      const { commitSha, tag } = await host.lockRepo(repo, { branch: data.branch || repo.defaultBranch, tag: FINAL_TAG });
+      const outcome = submissionOutcome(data, deadline);
+      await doc.ref.update({
+        "deadline.status": "locked",
+        "deadline.lockedAt": FieldValue.serverTimestamp(),
+        "deadline.finalCommitSha": commitSha,
+        "deadline.finalTag": tag,
+        "deadline.outcome": outcome,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      locked++;
+      logger.info(`Locked ${repo.fullName} at ${commitSha} outcome=${outcome}`);
+    } catch (err) {
+      failed++;
+      logger.error(`Failed to enforce deadline for challenge ${doc.id}`, err);
+      await doc.ref.update({
+        "deadline.status": "failed",
+        "deadline.error": (err as Error).message || String(err),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+  }
+  return { locked, failed };
+}
+
+// Judged on server receipt times from the webhook, not commit dates, which the candidate controls.
+function submissionOutcome(data: DocumentData, deadline: ChallengeDeadline): DeadlineOutcome {
+  const due = deadline.dueAt?.toMillis() ?? 0;
+  const submittedAt = (data.submission?.submittedAt as Timestamp | undefined)?.toMillis();
+  const lastPushAt = (data.activity?.lastPushAt as Timestamp | undefined)?.toMillis();
+  if (submittedAt === undefined && lastPushAt === undefined) return "noSubmission";
+  return Math.max(submittedAt ?? 0, lastPushAt ?? 0) > due ? "late" : "onTime";
+}
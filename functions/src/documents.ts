@@ -0,0 +1,194 @@
+import { extname } from "path";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+import WordExtractor from "word-extractor";
+
+// Text extraction for uploaded resumes and job descriptions.
+// The upload inputs accept PDF, DOC, DOCX and TXT; anything else is rejected with a typed error
+// so the HTTP handlers can return a useful 400 instead of sending binary garbage to the model.
+
+export type DocumentKind = "pdf" | "docx" | "doc" | "text";
+
+export type DocumentErrorCode =
+  | "UNSUPPORTED_TYPE" // not a PDF, DOC, DOCX or plain text file
+  | "NO_TEXT_CONTENT" // parsed fine but nothing to read (e.g. a scanned, image-only PDF)
+  | "UNREADABLE_DOCUMENT"; // corrupt, encrypted or otherwise unparseable
+
+export class DocumentExtractionError extends Error {
+  constructor(
+    public readonly code: DocumentErrorCode,
+    message: string,
+    public readonly filename?: string
+  ) {
+    super(message);
+    this.name = "DocumentExtractionError";
+  }
+}
+
+export interface UploadedDocument {
+  buffer: Buffer;
+  filename?: string;
+  mimeType?: string;
+}
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  text: string;
+}
+
+const MIME_KINDS: Record<string, DocumentKind> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/msword": "doc",
+  "text/plain": "text",
+  "text/markdown": "text",
+};
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".doc": "doc",
+  ".txt": "text",
+  ".md": "text",
+};
+
+// Minimum number of word characters before we consider a document to have real text in it.
+const MIN_TEXT_LENGTH = 20;
+
+/**
+ * Detects the document type from its leading bytes, falling back to the filename extension and
+ * the multipart mime type. Browsers often send `application/octet-stream` for .doc/.docx, so the
+ * magic bytes are the most trustworthy signal.
+ */
+export function detectDocumentKind(doc: UploadedDocument): DocumentKind | undefined {
+  const { buffer } = doc;
+  const ext = doc.filename ? extname(doc.filename).toLowerCase() : "";
+  const declared = EXTENSION_KINDS[ext] ?? MIME_KINDS[(doc.mimeType || "").toLowerCase()];
+  if (buffer.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+  // DOCX is a zip container (PK\x03\x04) holding word/document.xml; xlsx, pptx and plain zips
+  // share the signature and are unsupported. Legacy DOC is an OLE2 compound file.
+  if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    const entries = zipEntryNames(buffer);
+    if (entries.includes("word/document.xml")) return "docx";
+    // A damaged .docx whose directory cannot be read is still reported as unreadable, not unsupported.
+    return declared === "docx" && entries.length === 0 ? "docx" : undefined;
+  }
+  if (buffer.subarray(0, 8).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]))) return "doc";
+
+  if (declared === "text" && looksLikeText(buffer)) return "text";
+  if (!declared && !ext && looksLikeText(buffer)) return "text";
+  return undefined;
+}
+
+export async function extractDocumentText(doc: UploadedDocument): Promise<ExtractedDocument> {
+  const kind = detectDocumentKind(doc);
+  if (!kind) {
+    const isImage = (doc.mimeType || "").startsWith("image/");
+    throw new DocumentExtractionError(
+      "UNSUPPORTED_TYPE",
+      isImage
+        ? "Image files are not supported. Upload a PDF, DOC, DOCX or TXT file."
+        : `Unsupported file type${doc.filename ? ` for ${doc.filename}` : ""}. Upload a PDF, DOC, DOCX or TXT file.`,
+      doc.filename
+    );
+  }
+
+  let raw: string;
+  try {
+    raw = await extractRaw(kind, doc.buffer);
+  } catch (err: unknown) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new DocumentExtractionError(
+      "UNREADABLE_DOCUMENT",
+      `Could not read ${doc.filename || "document"} (${kind}): ${detail}`,
+      doc.filename
+    );
+  }
+
+  const text = normalizeText(raw);
+  if (text.replace(/\W/g, "").length < MIN_TEXT_LENGTH) {
+    throw new DocumentExtractionError(
+      "NO_TEXT_CONTENT",
+      kind === "pdf"
+        ? `${doc.filename || "PDF"} contains no extractable text. Scanned or image-only PDFs are not supported.`
+        : `${doc.filename || "Document"} contains no text content.`,
+      doc.filename
+    );
+  }
+  return { kind, text };
+}
+
+async function extractRaw(kind: DocumentKind, buffer: Buffer): Promise<string> {
+  switch (kind) {
+    case "pdf": {
+      const parser = new PDFParse({ data: new Uint8Array(buffer) });
+      try {
+        const result = await parser.getText({ pageJoiner: "" });
+        return result.text;
+      } finally {
+        await parser.destroy();
+      }
+    }
+    case "docx": {
+      const result = await mammoth.extractRawText({ buffer });
+      return result.value;
+    }
+    case "doc": {
+      const extracted = await new WordExtractor().extract(buffer);
+      return extracted.getBody();
+    }
+    case "text":
+      return buffer.toString("utf-8").replace(/^\uFEFF/, "");
+  }
+}
+
+// Collapses the whitespace noise PDF and Word extraction leaves behind while keeping paragraph breaks.
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/[ \t\u00A0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * File names from a zip's central directory, or [] when it cannot be read (truncated or not a zip).
+ * The directory is located through the end-of-central-directory record, which sits in the last
+ * 22 bytes plus an optional comment of up to 64 KiB.
+ */
+function zipEntryNames(buffer: Buffer): string[] {
+  const EOCD = 0x06054b50;
+  const CENTRAL_ENTRY = 0x02014b50;
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return [];
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const names: string[] = [];
+  for (let n = 0; n < count && offset + 46 <= buffer.length; n++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_ENTRY) break;
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    names.push(buffer.subarray(offset + 46, offset + 46 + nameLength).toString("utf-8"));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+// Heuristic: treat a buffer as text when it decodes as UTF-8 without NUL bytes or replacement characters.
+function looksLikeText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 4096);
+  if (sample.includes(0)) return false;
+  const decoded = sample.toString("utf-8");
+  const replacements = (decoded.match(/\uFFFD/g) || []).length;
+  return replacements <= Math.max(1, decoded.length / 100);
+}
@@ -0,0 +1,14 @@
+import { getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+
+// Single firebase-admin app shared by every function in this codebase.
+if (!getApps().length) {
+  initializeApp();
+}
+
+export const adminAuth = getAuth();
+export const db = getFirestore();
+// Default project bucket; resolved lazily so importing this module never needs storage config.
+export const uploadsBucket = () => getStorage().bucket();
@@ -0,0 +1,138 @@
+import { ChallengeSpec, DIFFICULTIES, Difficulty } from "./spec.js";
+
+// Interviewer-facing tuning for a generation: difficulty, target duration, how much the challenge
+// leans on the resume versus the job description, focus areas and whether bugs are planted.
+// Sent as multipart fields, validated here, stored on the job and recorded with the challenge.
+
+export const FOCUS_AREAS = ["frontend", "backend", "data", "debugging", "systemDesign"] as const;
+export type FocusArea = (typeof FOCUS_AREAS)[number];
+
+export interface GenerationOptions {
+  // null lets the model pick from the job description
+  difficulty: Difficulty | null;
+  durationMinutes: number | null;
+  // Percentage of the challenge drawn from the resume; the rest comes from the job description
+  resumeWeight: number;
+  focusAreas: FocusArea[];
+  seedBugs: boolean;
+}
+
+// Matches what the challenge-spec prompt did before these options existed.
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  difficulty: null,
+  durationMinutes: null,
+  resumeWeight: 40,
+  focusAreas: [],
+  seedBugs: true,
+};
+
+export const DURATION_LIMITS = { minMinutes: 30, maxMinutes: 480 };
+
+// How far the model's estimatedMinutes may drift from the requested duration before it is sent back
+const DURATION_TOLERANCE = 0.5;
+
+export class GenerationOptionsError extends Error {
+  readonly code = "INVALID_OPTIONS";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "GenerationOptionsError";
+  }
+}
+
+/**
+ * Reads `difficulty`, `duration_minutes`, `resume_weight`, `focus_areas` (comma-separated) and
+ * `seed_bugs` ("true"/"false"). Missing fields fall back to the defaults; anything present but
+ * unusable throws GenerationOptionsError.
+ */
+export function parseGenerationOptions(fields: Record<string, string>): GenerationOptions {
+  const options = { ...DEFAULT_GENERATION_OPTIONS };
+
+  const difficulty = (fields.difficulty || "").trim().toLowerCase();
+  if (difficulty) {
+    if (!(DIFFICULTIES as readonly string[]).includes(difficulty)) {
+      throw new GenerationOptionsError(`Difficulty must be one of ${DIFFICULTIES.join(", ")}.`);
+    }
+    options.difficulty = difficulty as Difficulty;
+  }
+
+  const duration = (fields.duration_minutes || "").trim();
+  if (duration) {
+    const minutes = Number(duration);
+    if (!Number.isInteger(minutes) || minutes < DURATION_LIMITS.minMinutes || minutes > DURATION_LIMITS.maxMinutes) {
+      throw new GenerationOptionsError(
+        `Duration must be a whole number of minutes between ${DURATION_LIMITS.minMinutes} and ${DURATION_LIMITS.maxMinutes}.`
+      );
+    }
+    options.durationMinutes = minutes;
+  }
+
+  const weight = (fields.resume_weight || "").trim();
+  if (weight) {
+    const percent = Number(weight);
+    if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+      throw new GenerationOptionsError("Resume weight must be a whole percentage between 0 and 100.");
+    }
+    options.resumeWeight = percent;
+  }
+
+  const areas = [...new Set((fields.focus_areas || "").split(",").map((a) => a.trim()).filter(Boolean))];
+  const unknown = areas.filter((a) => !(FOCUS_AREAS as readonly string[]).includes(a));
+  if (unknown.length) {
+    throw new GenerationOptionsError(`Unknown focus area(s): ${unknown.join(", ")}. Use ${FOCUS_AREAS.join(", ")}.`);
+  }
+  options.focusAreas = areas as FocusArea[];
+
+  const seedBugs = (fields.seed_bugs || "").trim().toLowerCase();
+  if (seedBugs) {
+    if (seedBugs !== "true" && seedBugs !== "false") {
+      throw new GenerationOptionsError('seed_bugs must be "true" or "false".');
+    }
+    options.seedBugs = seedBugs === "true";
+  }
+  return options;
+}
+
+const FOCUS_AREA_PROMPTS: Record<FocusArea, string> = {
+  frontend: "frontend work (UI components, state, accessibility)",
+  backend: "backend work (APIs, persistence, error handling)",
+  data: "data work (transformations, queries, data modelling)",
+  debugging: "debugging existing code",
+  systemDesign: "system design decisions the candidate has to explain in the README or code",
+};
+
+/** Prompt paragraph describing the requested tuning, shared by every prompt template. */
+export function optionsPrompt(options: GenerationOptions): string {
+  const lines = [
+    `Take ${options.resumeWeight}% of the user's resume and ${100 - options.resumeWeight}% of the job description when creating this challenge.`,
+  ];
+  if (options.difficulty) lines.push(`Pitch the challenge at ${options.difficulty} level and set "difficulty" to "${options.difficulty}".`);
+  if (options.durationMinutes) {
+    lines.push(`It should take about ${options.durationMinutes} minutes; set "estimatedMinutes" accordingly.`);
+  }
+  if (options.focusAreas.length) {
+    lines.push(`Focus on ${options.focusAreas.map((a) => FOCUS_AREA_PROMPTS[a]).join("; ")}.`);
+  }
+  return lines.join(" ");
+}
+
+/** Ways a generated spec ignores the requested options, phrased as feedback for a retry. */
+export function optionViolations(spec: ChallengeSpec, options: GenerationOptions): string[] {
+  const errors: string[] = [];
+  if (options.difficulty && spec.difficulty !== options.difficulty) {
+    errors.push(`"difficulty" must be "${options.difficulty}", not "${spec.difficulty}".`);
+  }
+  if (options.durationMinutes) {
+    const drift = Math.abs(spec.estimatedMinutes - options.durationMinutes) / options.durationMinutes;
+    if (drift > DURATION_TOLERANCE) {
+      errors.push(`"estimatedMinutes" is ${spec.estimatedMinutes} but the challenge should take about ${options.durationMinutes} minutes.`);
+    }
+  }
+  if (options.seedBugs && spec.hiddenBugs.length === 0) {
+    errors.push('Plant at least one bug in the starter files and list it in "hiddenBugs".');
+  }
+  if (!options.seedBugs && spec.hiddenBugs.length > 0) {
+    errors.push('Do not plant bugs in this challenge; "hiddenBugs" must be an empty array.');
+  }
+  return errors;
+}
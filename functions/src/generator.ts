@@ -0,0 +1,113 @@
+import * as logger from "firebase-functions/logger";
+import { DEFAULT_GENERATION_OPTIONS, GenerationOptions, optionsPrompt, optionViolations } from "./generationOptions.js";
+import type { LlmMessage, LlmProvider, LlmUsage } from "./llm/index.js";
+import { ChallengeManifest, readmeOnlyManifest } from "./manifest.js";
+import { getPromptTemplate, PromptTemplate, PromptTemplateRef, renderPrompt, templateRef } from "./prompts/index.js";
+import { sanitizeUntrusted } from "./safety.js";
+import { ChallengeSpec, validateChallengeSpec } from "./spec.js";
+
+// Renders the registry template for a generation job and turns the model's answer into a validated
+// challenge. Structured ("spec") prompts are retried with the validation errors fed back
+// to the model until the output passes or MAX_SPEC_ATTEMPTS is reached; a spec that ignores the
+// requested generation options is sent back the same way.
+
+export interface ChallengeRequest {
+  template: PromptTemplateRef;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  prompt: string;
+  format: PromptTemplate["format"];
+  options: GenerationOptions;
+}
+
+export interface GeneratedChallenge {
+  manifest: ChallengeManifest;
+  // null for README-only prompts
+  spec: ChallengeSpec | null;
+  model: string;
+  attempts: number;
+  // Summed over every attempt
+  usage: LlmUsage;
+}
+
+export const MAX_SPEC_ATTEMPTS = 3;
+
+export class SpecValidationError extends Error {
+  readonly code = "INVALID_SPEC";
+
+  constructor(public readonly errors: string[], attempts: number) {
+    super(`Model output failed validation after ${attempts} attempts: ${errors.slice(0, 5).join(" ")}`);
+    this.name = "SpecValidationError";
+  }
+}
+
+/** Renders a registry template (by id, or a legacy "v1"/"v2" name) with its model settings. */
+export function buildChallengeRequest(
+  templateId: string,
+  resumeText: string,
+  jdText: string,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
+): ChallengeRequest {
+  const template = getPromptTemplate(templateId);
+  return {
+    template: templateRef(template),
+    model: template.model,
+    maxTokens: template.maxTokens,
+    temperature: template.temperature,
+    format: template.format,
+    options,
+    prompt: renderPrompt(template, {
+      resume: sanitizeUntrusted(resumeText),
+      jobDescription: sanitizeUntrusted(jdText),
+      tuning: optionsPrompt(options),
+      bugInstructions: bugInstructions(options.seedBugs),
+    }),
+  };
+}
+
+function bugInstructions(seedBugs: boolean): string {
+  if (!seedBugs) return 'Do not plant any bugs: the starter code should work, and "hiddenBugs" must be an empty array.';
+  return 'Make sure to add some bugs in these starter files. Do not call out in the file where the bug is located, and never mention the bugs in comments, the problem description or anything else the candidate will see. Keep this a secret, but list every bug you planted in "hiddenBugs", with its location and the expected fix, so the interviewer can check for it.';
+}
+
+export async function generateChallenge(llm: LlmProvider, request: ChallengeRequest): Promise<GeneratedChallenge> {
+  const messages: LlmMessage[] = [{ role: "user", content: request.prompt }];
+  const usage: LlmUsage = { promptTokens: 0, completionTokens: 0 };
+
+  for (let attempt = 1; ; attempt++) {
+    const completion = await llm.complete({
+      model: request.model,
+      messages,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      responseFormat: request.format === "spec" ? "json" : "text",
+      generationOptions: request.options
+    });
+    logger.info(`${llm.name} response received model=${completion.model} attempt=${attempt}`);
+    usage.promptTokens += completion.usage?.promptTokens ?? 0;
+    usage.completionTokens += completion.usage?.completionTokens ?? 0;
+
+    if (request.format === "markdown") {
+      return { manifest: readmeOnlyManifest(completion.content), spec: null, model: completion.model, attempts: attempt, usage };
+    }
+
+    const result = validateChallengeSpec(completion.content);
+    const errors = result.ok ? optionViolations(result.spec, request.options) : result.errors;
+    if (result.ok && !errors.length) {
+      return { manifest: result.manifest, spec: result.spec, model: completion.model, attempts: attempt, usage };
+    }
+
+    logger.warn(`Challenge spec failed validation (attempt ${attempt}/${MAX_SPEC_ATTEMPTS})`, { errors });
+    if (attempt >= MAX_SPEC_ATTEMPTS) {
+      throw new SpecValidationError(errors, attempt);
+    }
+    messages.push(
+      { role: "assistant", content: completion.content },
+      {
+        role: "user",
+        content: `That JSON did not pass validation:\n${errors.map((e) => `- ${e}`).join("\n")}\nReturn the corrected JSON object only.`
+      }
+    );
+  }
+}
@@ -0,0 +1,273 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { DocumentData, FieldValue, Timestamp } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { CHALLENGES_COLLECTION } from "./challenges.js";
+import { deadlineStartUpdate } from "./deadlines.js";
+import { adminAuth, db } from "./firebaseAdmin.js";
+import type { Notifier } from "./notifiers/index.js";
+
+// GitHub webhook events for challenge repos. Each delivery is matched to its challenge by repo
+// full name, logged under `challenges/{id}/activity/{deliveryId}` (which also makes redelivered
+// events no-ops) and folded into the `activity` and `submission` fields on the challenge record.
+// The candidate accepting their collaborator invitation, or failing that their first push, starts a
+// time-limited session, so it does not wait for the hourly access sync.
+export const ACTIVITY_SUBCOLLECTION = "activity";
+
+export const WEBHOOK_EVENTS = ["push", "pull_request", "issues", "member"] as const;
+
+export interface ChallengeActivity {
+  pushes: number;
+  commits: number;
+  issuesOpened: number;
+  firstCommitAt: Timestamp | null;
+  lastCommitAt: Timestamp | null;
+  // From challenge creation to the candidate's first commit
+  timeToFirstCommitMs: number | null;
+  lastCommitSha: string | null;
+}
+
+export interface Submission {
+  state: "open" | "merged" | "closed";
+  pullRequestNumber: number;
+  url: string;
+  title: string;
+  headSha: string;
+  submittedAt: Timestamp;
+}
+
+export type WebhookOutcome =
+  | { handled: false; reason: string }
+  | { handled: true; challengeId: string; submitted: boolean };
+
+// Minimal views of the GitHub payloads; only the fields read below.
+interface RepositoryPayload {
+  repository?: { full_name?: string; default_branch?: string };
+  sender?: { login?: string };
+}
+
+interface PushPayload extends RepositoryPayload {
+  ref: string;
+  after: string;
+  deleted?: boolean;
+  commits?: { id: string; timestamp: string }[];
+}
+
+interface PullRequestPayload extends RepositoryPayload {
+  action: string;
+  pull_request: {
+    number: number;
+    html_url: string;
+    title: string;
+    draft?: boolean;
+    merged?: boolean;
+    head: { sha: string };
+    base: { ref: string };
+  };
+}
+
+interface IssuesPayload extends RepositoryPayload {
+  action: string;
+  issue: { number: number; title: string };
+}
+
+interface MemberPayload extends RepositoryPayload {
+  action: string;
+  member: { login: string };
+}
+
+/** Checks the `X-Hub-Signature-256` header against an HMAC-SHA256 of the raw request body. */
+export function verifyGitHubSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature?.startsWith("sha256=") || !secret) return false;
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export async function handleGitHubEvent(
+  event: string,
+  deliveryId: string,
+  payload: RepositoryPayload,
+  notifier: Notifier
+): Promise<WebhookOutcome> {
+  if (!(WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+    return { handled: false, reason: `Ignoring ${event} event` };
+  }
+  const fullName = payload.repository?.full_name;
+  if (!fullName) return { handled: false, reason: "Payload has no repository" };
+
+  const matches = await db
+    .collection(CHALLENGES_COLLECTION)
+    .where("repoHost", "==", "github")
+    .where("repoFullName", "==", fullName)
+    .limit(1)
+    .get();
+  if (matches.empty) return { handled: false, reason: `No challenge for ${fullName}` };
+  const challengeRef = matches.docs[0].ref;
+
+  const result = await db.runTransaction(async (tx): Promise<RecordResult> => {
+    const activityRef = challengeRef.collection(ACTIVITY_SUBCOLLECTION).doc(deliveryId);
+    const [challengeSnap, activitySnap] = await Promise.all([tx.get(challengeRef), tx.get(activityRef)]);
+    if (activitySnap.exists) return { status: "duplicate" };
+
+    const challenge = challengeSnap.data() ?? {};
+    const change = describeEvent(event, payload, challenge);
+    if (!change) return { status: "ignored" };
+
+    tx.create(activityRef, {
+      ownerUid: challenge.ownerUid,
+      event,
+      action: (payload as { action?: string }).action ?? null,
+      actor: payload.sender?.login ?? null,
+      summary: change.summary,
+      receivedAt: FieldValue.serverTimestamp(),
+    });
+    tx.update(challengeRef, {
+      ...change.update,
+      "activity.lastEventAt": FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { status: "recorded", change, ownerUid: challenge.ownerUid };
+  });
+
+  if (result.status === "duplicate") return { handled: false, reason: `Delivery ${deliveryId} already processed` };
+  if (result.status === "ignored") return { handled: false, reason: `Nothing to record for ${event}` };
+
+  const { change } = result;
+  if (change.pullRequest) {
+    await notifySubmission(notifier, challengeRef.id, result.ownerUid, fullName, change.pullRequest);
+  }
+  return { handled: true, challengeId: challengeRef.id, submitted: !!change.pullRequest };
+}
+
+interface EventChange {
+  summary: string;
+  update: Record<string, unknown>;
+  // Set when this event is a new submission
+  pullRequest?: { number: number; url: string; title: string };
+}
+
+type RecordResult =
+  | { status: "duplicate" }
+  | { status: "ignored" }
+  | { status: "recorded"; change: EventChange; ownerUid: string };
+
+function describeEvent(event: string, payload: RepositoryPayload, challenge: DocumentData): EventChange | null {
+  switch (event) {
+    case "push":
+      return describePush(payload as PushPayload, challenge);
+    case "pull_request":
+      return describePullRequest(payload as PullRequestPayload, challenge);
+    case "issues":
+      return describeIssue(payload as IssuesPayload);
+    case "member":
+      return describeMember(payload as MemberPayload, challenge);
+    default:
+      return null;
+  }
+}
+
+function describePush(push: PushPayload, challenge: DocumentData): EventChange | null {
+  // Branch deletions and the scaffold push made by the pipeline itself are not candidate work.
+  if (push.deleted || push.after === challenge.scaffoldCommitSha) return null;
+  const commits = push.commits ?? [];
+  if (!commits.length) return null;
+
+  const times = commits.map((c) => Date.parse(c.timestamp)).filter((t) => !Number.isNaN(t));
+  const update: Record<string, unknown> = {
+    "activity.pushes": FieldValue.increment(1),
+    "activity.commits": FieldValue.increment(commits.length),
+    "activity.lastCommitSha": push.after,
+    // Server receipt time; deadlines are judged on this rather than commit dates
+    "activity.lastPushAt": FieldValue.serverTimestamp(),
+    // Work has started even if the member event that should have started the clock never arrived
+    ...deadlineStartUpdate(challenge),
+  };
+  if (times.length) {
+    const earliest = Math.min(...times);
+    update["activity.lastCommitAt"] = Timestamp.fromMillis(Math.max(...times));
+    if (!challenge.activity?.firstCommitAt) {
+      update["activity.firstCommitAt"] = Timestamp.fromMillis(earliest);
+      const createdAt = challenge.createdAt as Timestamp | undefined;
+      if (createdAt) update["activity.timeToFirstCommitMs"] = Math.max(0, earliest - createdAt.toMillis());
+    }
+  }
+  const branch = push.ref.replace(/^refs\/heads\//, "");
+  return { summary: `${commits.length} commit(s) pushed to ${branch}`, update };
+}
+
+// A submission is a non-draft pull request opened against the repo's default branch.
+function describePullRequest(event: PullRequestPayload, challenge: DocumentData): EventChange | null {
+  const pr = event.pull_request;
+  const defaultBranch = event.repository?.default_branch || challenge.defaultBranch || "main";
+  if (pr.base.ref !== defaultBranch) return null;
+
+  const current = challenge.submission as Submission | null | undefined;
+  if (["opened", "reopened", "ready_for_review"].includes(event.action) && !pr.draft) {
+    const alreadyOpen = current?.state === "open" && current.pullRequestNumber === pr.number;
+    return {
+      summary: `Pull request #${pr.number} ${event.action}: ${pr.title}`,
+      update: {
+        submission: {
+          state: "open",
+          pullRequestNumber: pr.number,
+          url: pr.html_url,
+          title: pr.title,
+          headSha: pr.head.sha,
+          submittedAt: alreadyOpen ? current.submittedAt : FieldValue.serverTimestamp(),
+        },
+      },
+      pullRequest: alreadyOpen ? undefined : { number: pr.number, url: pr.html_url, title: pr.title },
+    };
+  }
+  if (event.action === "synchronize" && current?.pullRequestNumber === pr.number) {
+    return { summary: `Pull request #${pr.number} updated`, update: { "submission.headSha": pr.head.sha } };
+  }
+  if (event.action === "closed" && current?.pullRequestNumber === pr.number) {
+    const state = pr.merged ? "merged" : "closed";
+    return { summary: `Pull request #${pr.number} ${state}`, update: { "submission.state": state } };
+  }
+  return null;
+}
+
+function describeIssue(event: IssuesPayload): EventChange | null {
+  if (event.action !== "opened") return null;
+  return {
+    summary: `Issue #${event.issue.number} opened: ${event.issue.title}`,
+    update: { "activity.issuesOpened": FieldValue.increment(1) },
+  };
+}
+
+// GitHub sends "added" once the candidate accepts the collaborator invitation.
+function describeMember(event: MemberPayload, challenge: DocumentData): EventChange | null {
+  const access = challenge.candidateAccess as { username: string; state: string } | null | undefined;
+  if (event.action !== "added" || access?.state !== "pending") return null;
+  if (event.member.login.toLowerCase() !== access.username.toLowerCase()) return null;
+  return {
+    summary: `${event.member.login} accepted the repository invitation`,
+    update: { "candidateAccess.state": "active", ...deadlineStartUpdate(challenge) },
+  };
+}
+
+async function notifySubmission(
+  notifier: Notifier,
+  challengeId: string,
+  ownerUid: string,
+  repoFullName: string,
+  pr: { number: number; url: string; title: string }
+): Promise<void> {
+  const owner = await adminAuth.getUser(ownerUid).catch(() => null);
+  try {
+    await notifier.notify({
+      kind: "submission",
+      challengeId,
+      ownerUid,
+      ownerEmail: owner?.email ?? null,
+      title: `Candidate submitted ${repoFullName}`,
+      message: `Pull request #${pr.number} "${pr.title}" is ready for review.`,
+      url: pr.url,
+    });
+  } catch (err) {
+    // The submission is already recorded; a failed notification should not make GitHub redeliver.
+    logger.warn(`${notifier.name} notifier failed for challenge ${challengeId}`, err);
+  }
+}
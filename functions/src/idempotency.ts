@@ -0,0 +1,109 @@
+import { createHash } from "crypto";
+import { DocumentReference, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { db } from "./firebaseAdmin.js";
+
+// Request deduplication for the endpoints that enqueue generation jobs. A client that retries
+// after a timeout sends the same `Idempotency-Key` header and gets the job from its first attempt
+// instead of a second job (and a second repo). Keys live in `idempotencyKeys`, scoped to the user
+// and endpoint (the document id is a SHA-256 of all three), and remember a fingerprint of the
+// request so a key reused for different inputs is rejected rather than silently replayed.
+export const IDEMPOTENCY_KEYS_COLLECTION = "idempotencyKeys";
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+// UUIDs and similar; long enough that clients cannot collide by accident
+const KEY_PATTERN = /^[A-Za-z0-9_.:-]{16,128}$/;
+// A key still "processing" after this long belongs to a request that died; it can be reclaimed.
+const PROCESSING_STALE_MS = 2 * 60 * 1000;
+
+export type IdempotencyErrorCode = "INVALID_IDEMPOTENCY_KEY" | "IDEMPOTENCY_KEY_IN_USE" | "IDEMPOTENCY_KEY_REUSED";
+
+export class IdempotencyError extends Error {
+  constructor(message: string, public readonly code: IdempotencyErrorCode) {
+    super(message);
+    this.name = "IdempotencyError";
+  }
+
+  get status(): number {
+    return this.code === "INVALID_IDEMPOTENCY_KEY" ? 400 : this.code === "IDEMPOTENCY_KEY_IN_USE" ? 409 : 422;
+  }
+}
+
+export interface IdempotentRequest {
+  ref: DocumentReference;
+  fingerprint: string;
+}
+
+/**
+ * Reads the key for one request, or null when the client sent none (the request then simply runs).
+ * `parts` are what make two requests "the same": form fields and uploaded file contents.
+ */
+export function idempotentRequest(
+  header: string | undefined,
+  scope: { uid: string; endpoint: string },
+  parts: (string | Buffer | null | undefined)[]
+): IdempotentRequest | null {
+  const key = header?.trim();
+  if (!key) return null;
+  if (!KEY_PATTERN.test(key)) {
+    throw new IdempotencyError(
+      `${IDEMPOTENCY_HEADER} must be 16 to 128 letters, digits or "_.:-" characters, such as a UUID.`,
+      "INVALID_IDEMPOTENCY_KEY"
+    );
+  }
+  const id = createHash("sha256").update(`${scope.uid}\n${scope.endpoint}\n${key}`).digest("hex");
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    // Length-prefixed so ["ab", "c"] and ["a", "bc"] differ
+    const bytes = part === null || part === undefined ? Buffer.alloc(0) : Buffer.from(part);
+    hash.update(`${bytes.length}:`).update(bytes);
+  }
+  return { ref: db.collection(IDEMPOTENCY_KEYS_COLLECTION).doc(id), fingerprint: hash.digest("hex") };
+}
+
+/**
+ * Claims the key for `jobId`. Returns null when this request is the first with the key and should
+ * run, or the job id of the earlier request to return instead. Throws IdempotencyError while the
+ * earlier request is still being handled, or when the key was used for a different request.
+ */
+export async function claimIdempotencyKey(request: IdempotentRequest, jobId: string, now = Date.now()): Promise<string | null> {
+  const ttlHours = Number(process.env.IDEMPOTENCY_TTL_HOURS) || 24;
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(request.ref);
+    const expired = (snap.get("expiresAt") as Timestamp | undefined)?.toMillis() ?? 0;
+    if (snap.exists && expired > now) {
+      if (snap.get("fingerprint") !== request.fingerprint) {
+        throw new IdempotencyError(
+          `This ${IDEMPOTENCY_HEADER} was already used for a different request. Send a new key for new inputs.`,
+          "IDEMPOTENCY_KEY_REUSED"
+        );
+      }
+      if (snap.get("status") === "completed") return snap.get("jobId") as string;
+      const startedAt = (snap.get("startedAt") as Timestamp | undefined)?.toMillis() ?? 0;
+      if (now - startedAt < PROCESSING_STALE_MS) {
+        throw new IdempotencyError(
+          "An identical request is still being processed. Wait a moment and retry with the same key.",
+          "IDEMPOTENCY_KEY_IN_USE"
+        );
+      }
+    }
+    tx.set(request.ref, {
+      fingerprint: request.fingerprint,
+      jobId,
+      status: "processing",
+      startedAt: Timestamp.fromMillis(now),
+      // Firestore TTL deletes expired keys (see firestore.indexes.json); until then they are ignored.
+      expiresAt: Timestamp.fromMillis(now + ttlHours * 60 * 60 * 1000),
+    });
+    return null;
+  });
+}
+
+/** Records that the job was enqueued, so retries with the key get its id. */
+export async function completeIdempotencyKey(request: IdempotentRequest): Promise<void> {
+  await request.ref.update({ status: "completed", completedAt: FieldValue.serverTimestamp() });
+}
+
+/** Frees the key after a failed request, so a retry runs again instead of replaying the failure. */
+export async function releaseIdempotencyKey(request: IdempotentRequest): Promise<void> {
+  await request.ref.delete();
+}
@@ -0,0 +1,129 @@
+import { createHash, randomBytes } from "crypto";
+import { DocumentReference, FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { ChallengeDeadline } from "./deadlines.js";
+import { db } from "./firebaseAdmin.js";
+import type { GenerationOptions } from "./generationOptions.js";
+import type { JobDescriptionSource } from "./jobDescriptions.js";
+import type { StoredUpload } from "./uploads.js";
+
+// Challenge invitations: an interviewer stores a job description and gets a single-use link; the
+// candidate signs in, uploads their own resume and generation starts under the interviewer's
+// account. Only a SHA-256 of the token is stored (as the document id), so a leaked database
+// export cannot be turned back into working links.
+export const INVITATIONS_COLLECTION = "invitations";
+
+export type InvitationStatus = "open" | "accepted";
+
+export interface Invitation {
+  ownerUid: string;
+  // When set, only an account with this email may accept
+  candidateEmail: string | null;
+  // Registry id of the prompt template; older invitations have promptVersion "v2" instead
+  promptTemplateId: string;
+  jobDescription: StoredUpload;
+  jobDescriptionSource: JobDescriptionSource | null;
+  options: GenerationOptions;
+  deadline: ChallengeDeadline | null;
+  status: InvitationStatus;
+  expiresAt: Timestamp;
+  acceptedByUid: string | null;
+  acceptedAt: Timestamp | null;
+  jobId: string | null;
+  challengeId: string | null;
+}
+
+export type InvitationErrorCode = "INVITATION_NOT_FOUND" | "INVITATION_USED" | "INVITATION_EXPIRED" | "INVITATION_WRONG_ACCOUNT";
+
+export class InvitationError extends Error {
+  constructor(message: string, public readonly code: InvitationErrorCode) {
+    super(message);
+    this.name = "InvitationError";
+  }
+
+  get status(): number {
+    return this.code === "INVITATION_NOT_FOUND" ? 404 : this.code === "INVITATION_WRONG_ACCOUNT" ? 403 : 410;
+  }
+}
+
+export function newInvitationToken(): { token: string; ref: DocumentReference } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, ref: invitationRef(token) };
+}
+
+export function invitationRef(token: string): DocumentReference {
+  return db.collection(INVITATIONS_COLLECTION).doc(createHash("sha256").update(token).digest("hex"));
+}
+
+export function invitationExpiry(now = Date.now()): Timestamp {
+  const days = Number(process.env.INVITATION_TTL_DAYS) || 7;
+  return Timestamp.fromMillis(now + days * 24 * 60 * 60 * 1000);
+}
+
+export async function saveInvitation(
+  ref: DocumentReference,
+  invitation: Pick<Invitation, "ownerUid" | "candidateEmail" | "promptTemplateId" | "jobDescription" | "jobDescriptionSource" | "options" | "deadline">
+): Promise<Timestamp> {
+  const expiresAt = invitationExpiry();
+  await ref.create({
+    ...invitation,
+    status: "open",
+    expiresAt,
+    acceptedByUid: null,
+    acceptedAt: null,
+    jobId: null,
+    challengeId: null,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  return expiresAt;
+}
+
+/**
+ * Marks the invitation accepted by this user in a transaction, so two uploads racing on the same
+ * link cannot both start a job. Throws InvitationError when the link cannot be used.
+ */
+export async function claimInvitation(
+  token: string,
+  user: { uid: string; email?: string },
+  jobId: string,
+  now = Timestamp.now()
+): Promise<{ id: string; invitation: Invitation }> {
+  const ref = invitationRef(token);
+  const invitation = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new InvitationError("This invitation link is not valid.", "INVITATION_NOT_FOUND");
+    const data = snap.data() as Invitation;
+    if (data.status !== "open") {
+      throw new InvitationError("This invitation has already been used.", "INVITATION_USED");
+    }
+    if (data.expiresAt.toMillis() <= now.toMillis()) {
+      throw new InvitationError("This invitation has expired. Ask your interviewer for a new link.", "INVITATION_EXPIRED");
+    }
+    if (data.candidateEmail && data.candidateEmail !== user.email?.toLowerCase()) {
+      throw new InvitationError(
+        `This invitation was sent to ${data.candidateEmail}. Sign in with that email to accept it.`,
+        "INVITATION_WRONG_ACCOUNT"
+      );
+    }
+    tx.update(ref, { status: "accepted", acceptedByUid: user.uid, acceptedAt: FieldValue.serverTimestamp(), jobId });
+    return data;
+  });
+  return { id: ref.id, invitation };
+}
+
+/** Records the generated challenge on the invitation so the interviewer can follow it from there. */
+export async function linkInvitationChallenge(invitationId: string, challengeId: string): Promise<void> {
+  await db.collection(INVITATIONS_COLLECTION).doc(invitationId).update({ challengeId });
+}
+
+/**
+ * Reopens a claimed invitation when its job could not be started or failed, so the candidate can
+ * retry the link. Only the job that claimed it can reopen it, and never once it produced a challenge.
+ */
+export async function releaseInvitation(invitationId: string, jobId: string): Promise<void> {
+  const ref = db.collection(INVITATIONS_COLLECTION).doc(invitationId);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || snap.get("jobId") !== jobId || snap.get("challengeId")) return;
+    tx.update(ref, { status: "open", acceptedByUid: null, acceptedAt: null, jobId: null });
+  });
+}
@@ -0,0 +1,151 @@
+import { FieldValue } from "firebase-admin/firestore";
+import type { UploadedDocument } from "./documents.js";
+import { db } from "./firebaseAdmin.js";
+
+// Shared job description library. Each document in `jobDescriptions` holds the current text and
+// metadata; every save that changes something appends a full snapshot to its `versions`
+// subcollection (keyed by version number), so challenges can record exactly which revision they
+// were generated from. Interviewers read the whole library; only the author or an admin edits.
+export const JOB_DESCRIPTIONS_COLLECTION = "jobDescriptions";
+export const VERSIONS_SUBCOLLECTION = "versions";
+
+export const JD_LEVELS = ["intern", "junior", "mid", "senior", "staff", "principal"] as const;
+export type JobDescriptionLevel = (typeof JD_LEVELS)[number];
+
+export interface JobDescriptionFields {
+  title: string;
+  team: string;
+  level: JobDescriptionLevel | null;
+  tags: string[];
+  text: string;
+}
+
+export interface JobDescription extends JobDescriptionFields {
+  ownerUid: string;
+  version: number;
+}
+
+// Recorded on jobs and challenges generated from a library entry
+export interface JobDescriptionSource {
+  id: string;
+  version: number;
+  title: string;
+}
+
+export type JobDescriptionErrorCode = "INVALID_JOB_DESCRIPTION" | "JOB_DESCRIPTION_NOT_FOUND" | "JOB_DESCRIPTION_FORBIDDEN";
+
+export class JobDescriptionError extends Error {
+  constructor(message: string, public readonly code: JobDescriptionErrorCode) {
+    super(message);
+    this.name = "JobDescriptionError";
+  }
+
+  get status(): number {
+    return this.code === "JOB_DESCRIPTION_NOT_FOUND" ? 404 : this.code === "JOB_DESCRIPTION_FORBIDDEN" ? 403 : 400;
+  }
+}
+
+const MAX_TEXT_LENGTH = 50_000;
+const MAX_TAGS = 20;
+// Ids come from the client; anything else could name another collection's path.
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/** Reads title/team/level/tags from multipart fields; `text` comes from the field or an extracted file. */
+export function parseJobDescriptionFields(fields: Record<string, string>, text: string): JobDescriptionFields {
+  const title = (fields.title || "").trim();
+  if (!title) throw new JobDescriptionError("A title is required.", "INVALID_JOB_DESCRIPTION");
+  const level = (fields.level || "").trim().toLowerCase();
+  if (level && !(JD_LEVELS as readonly string[]).includes(level)) {
+    throw new JobDescriptionError(`Level must be one of ${JD_LEVELS.join(", ")}.`, "INVALID_JOB_DESCRIPTION");
+  }
+  const trimmed = text.trim();
+  if (!trimmed) throw new JobDescriptionError("The job description text is empty.", "INVALID_JOB_DESCRIPTION");
+  if (trimmed.length > MAX_TEXT_LENGTH) {
+    throw new JobDescriptionError(`The job description is longer than ${MAX_TEXT_LENGTH} characters.`, "INVALID_JOB_DESCRIPTION");
+  }
+  const tags = [...new Set((fields.tags || "").split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))];
+  if (tags.length > MAX_TAGS) {
+    throw new JobDescriptionError(`Use at most ${MAX_TAGS} tags.`, "INVALID_JOB_DESCRIPTION");
+  }
+  return {
+    title,
+    team: (fields.team || "").trim(),
+    level: (level || null) as JobDescriptionLevel | null,
+    tags,
+    text: trimmed,
+  };
+}
+
+/**
+ * Creates a library entry (id null) or updates one, appending a version when anything changed.
+ * Returns the id and the version now current.
+ */
+export async function saveJobDescription(
+  id: string | null,
+  fields: JobDescriptionFields,
+  user: { uid: string; isAdmin: boolean }
+): Promise<{ id: string; version: number }> {
+  const ref = id ? jobDescriptionRef(id) : db.collection(JOB_DESCRIPTIONS_COLLECTION).doc();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    let version = 1;
+    if (id) {
+      if (!snap.exists) throw new JobDescriptionError("Job description not found.", "JOB_DESCRIPTION_NOT_FOUND");
+      const current = snap.data() as JobDescription;
+      if (current.ownerUid !== user.uid && !user.isAdmin) {
+        throw new JobDescriptionError("Only the author or an admin can edit this job description.", "JOB_DESCRIPTION_FORBIDDEN");
+      }
+      if (!hasChanges(current, fields)) return { id: ref.id, version: current.version };
+      version = current.version + 1;
+      tx.update(ref, { ...fields, version, updatedAt: FieldValue.serverTimestamp() });
+    } else {
+      tx.create(ref, {
+        ...fields,
+        ownerUid: user.uid,
+        version,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+    tx.create(ref.collection(VERSIONS_SUBCOLLECTION).doc(String(version)), {
+      ...fields,
+      version,
+      editedBy: user.uid,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    return { id: ref.id, version };
+  });
+}
+
+/**
+ * Loads the current revision of a library entry as a plain-text document, so the generation
+ * pipeline can treat it exactly like an uploaded file.
+ */
+export async function loadJobDescriptionDocument(id: string): Promise<{ document: UploadedDocument; source: JobDescriptionSource }> {
+  const snap = await jobDescriptionRef(id).get();
+  if (!snap.exists) throw new JobDescriptionError("The selected job description no longer exists.", "JOB_DESCRIPTION_NOT_FOUND");
+  const jd = snap.data() as JobDescription;
+  return {
+    document: {
+      buffer: Buffer.from(`${jd.title}\n\n${jd.text}`, "utf-8"),
+      filename: `${jd.title}.txt`,
+      mimeType: "text/plain",
+    },
+    source: { id: snap.id, version: jd.version, title: jd.title },
+  };
+}
+
+function hasChanges(current: JobDescriptionFields, next: JobDescriptionFields): boolean {
+  return (
+    current.title !== next.title ||
+    current.team !== next.team ||
+    current.level !== next.level ||
+    current.text !== next.text ||
+    current.tags.join(",") !== next.tags.join(",")
+  );
+}
+
+function jobDescriptionRef(id: string) {
+  if (!ID_PATTERN.test(id)) throw new JobDescriptionError("Invalid job description id.", "INVALID_JOB_DESCRIPTION");
+  return db.collection(JOB_DESCRIPTIONS_COLLECTION).doc(id);
+}
@@ -0,0 +1,165 @@
+import { DocumentReference, FieldValue } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { db } from "./firebaseAdmin.js";
+import type { ChallengeDeadline } from "./deadlines.js";
+import type { GenerationOptions } from "./generationOptions.js";
+import type { JobDescriptionSource } from "./jobDescriptions.js";
+import type { RepoRef } from "./repoHosts/index.js";
+import type { StoredUpload } from "./uploads.js";
+
+// Challenge generation runs as a background job. The HTTP endpoint writes a document to
+// `generationJobs`, a Firestore trigger picks it up and walks through the stages below,
+// recording per-stage status so the client can render live progress via onSnapshot.
+export const GENERATION_JOBS_COLLECTION = "generationJobs";
+
+export const JOB_STAGES = ["parsing", "generating", "creatingRepo", "pushing", "invitingCandidate"] as const;
+export type JobStage = (typeof JOB_STAGES)[number];
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+export type StageStatus = "pending" | "running" | "succeeded" | "failed" | "skipped";
+
+// What became of the repo a job created. "created" until the challenge record points at it; a
+// job that fails before then rolls the repo back, and repoRollback.ts sweeps up any left behind.
+export type JobRepoState = "created" | "linked" | "deleted" | "archived" | "rollbackFailed";
+
+export interface JobFailure {
+  stage: JobStage | null;
+  message: string;
+  code: string;
+}
+
+export interface JobResult {
+  challengeId: string;
+  challengeLink: string;
+  githubRepo: string;
+  candidateAccess: { username: string; state: string; error: string | null } | null;
+}
+
+export interface GenerationJob {
+  ownerUid: string;
+  // Registry id of the prompt template; jobs queued before the registry have promptVersion "v1"/"v2" instead
+  promptTemplateId: string;
+  // Repo host username to invite as a collaborator, if the interviewer supplied one
+  candidateUsername: string | null;
+  // Lowercased email of the candidate's account in this app, if any; grants them the candidate view
+  candidateEmail: string | null;
+  deadline: ChallengeDeadline | null;
+  // Set when the candidate started this job from an invitation link, with the uid that accepted it
+  invitationId: string | null;
+  candidateUid: string | null;
+  // Library entry and version the job description came from, when not uploaded as a file
+  jobDescriptionSource: JobDescriptionSource | null;
+  options: GenerationOptions;
+  status: JobStatus;
+  currentStage: JobStage | null;
+  stages: Record<JobStage, { status: StageStatus }>;
+  inputs: {
+    resume: StoredUpload;
+    jobDescription: StoredUpload;
+  };
+  // Set as soon as the repo exists, so it can be found again if the worker dies
+  repo: RepoRef | null;
+  repoState: JobRepoState | null;
+  result: JobResult | null;
+  error: JobFailure | null;
+}
+
+/** Error whose message is safe to show to the user, tagged with a machine-readable code. */
+export class StageError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = "StageError";
+  }
+}
+
+export function newJobRef(): DocumentReference {
+  return db.collection(GENERATION_JOBS_COLLECTION).doc();
+}
+
+export async function enqueueJob(
+  ref: DocumentReference,
+  job: Pick<GenerationJob, "ownerUid" | "promptTemplateId" | "candidateUsername" | "candidateEmail" | "deadline" | "invitationId" | "candidateUid" | "jobDescriptionSource" | "options" | "inputs">
+): Promise<void> {
+  const stages = Object.fromEntries(JOB_STAGES.map((stage) => [stage, { status: "pending" }]));
+  await ref.create({
+    ...job,
+    status: "queued",
+    currentStage: null,
+    stages,
+    repo: null,
+    repoState: null,
+    result: null,
+    error: null,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Moves a job from queued to running. Firestore triggers are delivered at least once,
+ * so a redelivered event for a job that is already running or finished is ignored.
+ */
+export async function claimJob(ref: DocumentReference): Promise<boolean> {
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || snap.get("status") !== "queued") return false;
+    tx.update(ref, { status: "running", updatedAt: FieldValue.serverTimestamp() });
+    return true;
+  });
+}
+
+/** Runs one pipeline stage, recording its start, completion or failure on the job document. */
+export async function runStage<T>(ref: DocumentReference, stage: JobStage, work: () => Promise<T>): Promise<T> {
+  await ref.update({
+    currentStage: stage,
+    [`stages.${stage}.status`]: "running",
+    [`stages.${stage}.startedAt`]: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  try {
+    const value = await work();
+    await ref.update({
+      [`stages.${stage}.status`]: "succeeded",
+      [`stages.${stage}.finishedAt`]: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return value;
+  } catch (err) {
+    await ref.update({ [`stages.${stage}.status`]: "failed", [`stages.${stage}.finishedAt`]: FieldValue.serverTimestamp() });
+    throw err;
+  }
+}
+
+export async function skipStage(ref: DocumentReference, stage: JobStage): Promise<void> {
+  await ref.update({ [`stages.${stage}.status`]: "skipped", updatedAt: FieldValue.serverTimestamp() });
+}
+
+export async function recordJobRepo(ref: DocumentReference, repo: RepoRef): Promise<void> {
+  await ref.update({ repo, repoState: "created", updatedAt: FieldValue.serverTimestamp() });
+}
+
+/** The challenge record now owns the repo; it is no longer rolled back if a later step fails. */
+export async function markJobRepoLinked(ref: DocumentReference): Promise<void> {
+  await ref.update({ repoState: "linked", updatedAt: FieldValue.serverTimestamp() });
+}
+
+export async function completeJob(ref: DocumentReference, result: JobResult): Promise<void> {
+  await ref.update({
+    status: "succeeded",
+    currentStage: null,
+    result,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/** Marks the job failed, attributing the failure to whichever stage was running. */
+export async function failJob(ref: DocumentReference, failure: Omit<JobFailure, "stage">): Promise<void> {
+  const snap = await ref.get();
+  const stage = (snap.get("currentStage") as JobStage | null) ?? null;
+  logger.error(`Job ${ref.id} failed at stage=${stage}: ${failure.message}`);
+  await ref.update({
+    status: "failed",
+    error: { ...failure, stage },
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
@@ -0,0 +1,54 @@
+import { createMockProvider } from "./mock.js";
+import { createOpenAiProvider } from "./openai.js";
+import type { LlmProvider } from "./types.js";
+
+export * from "./types.js";
+
+export type LlmProviderName = "openai" | "azure" | "mock";
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  baseUrl?: string;
+  azureApiVersion?: string;
+  azureDeployment?: string;
+  // Overrides the per-prompt model, e.g. to point every prompt at one Azure deployment
+  model?: string;
+}
+
+/**
+ * Reads provider selection from the environment:
+ * LLM_PROVIDER (openai | azure | mock, default openai), LLM_BASE_URL, LLM_MODEL,
+ * AZURE_OPENAI_API_VERSION and AZURE_OPENAI_DEPLOYMENT.
+ */
+export function llmConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+  const provider = (env.LLM_PROVIDER || "openai").toLowerCase();
+  if (provider !== "openai" && provider !== "azure" && provider !== "mock") {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Use openai, azure or mock.`);
+  }
+  return {
+    provider,
+    baseUrl: env.LLM_BASE_URL || undefined,
+    azureApiVersion: env.AZURE_OPENAI_API_VERSION || undefined,
+    azureDeployment: env.AZURE_OPENAI_DEPLOYMENT || undefined,
+    model: env.LLM_MODEL || undefined,
+  };
+}
+
+/** Builds the configured provider. The API key is read lazily so the mock never needs one. */
+export function createLlmProvider(config: LlmConfig, apiKey: () => string): LlmProvider {
+  switch (config.provider) {
+    case "mock":
+      return createMockProvider();
+    case "azure":
+      if (!config.baseUrl) {
+        throw new Error("LLM_BASE_URL must be set to the Azure OpenAI resource endpoint when LLM_PROVIDER=azure.");
+      }
+      return createOpenAiProvider({
+        apiKey: apiKey(),
+        baseUrl: config.baseUrl,
+        azure: { apiVersion: config.azureApiVersion || "2024-06-01", deployment: config.azureDeployment },
+      });
+    case "openai":
+      return createOpenAiProvider({ apiKey: apiKey(), baseUrl: config.baseUrl });
+  }
+}
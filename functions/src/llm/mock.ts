@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+import type { GenerationOptions } from "../generationOptions.js";
+import { LlmCompletion, LlmCompletionRequest, LlmProvider } from "./types.js";
+
+// Deterministic offline provider for the emulator and unit tests. The same request always yields
+// the same completion, so runs are reproducible without network access or an API key.
+export function createMockProvider(): LlmProvider {
+  return {
+    name: "mock",
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const prompt = request.messages.map((m) => m.content).join("\n");
+      const seed = createHash("sha256").update(`${request.model}\n${prompt}`).digest("hex").slice(0, 8);
+      const rubric = taggedJson<{ criterion: string }[]>(prompt, "rubric");
+      const bugs = taggedJson<{ file: string; location: string }[]>(prompt, "hidden_bugs");
+      const content = request.responseFormat !== "json"
+        ? mockReadme(seed)
+        : JSON.stringify(rubric && bugs ? mockEvaluation(rubric, bugs) : withOptions(mockSpec(seed), request.generationOptions));
+
+      return {
+        content,
+        model: `mock-${request.model}`,
+        // Rough 4-characters-per-token estimate keeps usage numbers plausible for accounting.
+        usage: { promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(content.length / 4) },
+      };
+    },
+  };
+}
+
+function withOptions(spec: ReturnType<typeof mockSpec>, options: GenerationOptions | undefined) {
+  // Difficulty, duration and bug seeding are what optionViolations checks; the rest is prompt-only.
+  if (!options) return spec;
+  return {
+    ...spec,
+    difficulty: options.difficulty ?? spec.difficulty,
+    estimatedMinutes: options.durationMinutes ?? spec.estimatedMinutes,
+    hiddenBugs: options.seedBugs ? spec.hiddenBugs : [],
+  };
+}
+
+// Evaluation prompts embed the rubric and hidden bugs as JSON inside <rubric>...</rubric> style tags.
+function taggedJson<T>(prompt: string, tag: string): T | null {
+  const match = new RegExp(`<${tag}>\\n([\\s\\S]*?)\\n</${tag}>`).exec(prompt);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]) as T;
+  } catch {
+    return null;
+  }
+}
+
+function mockEvaluation(rubric: { criterion: string }[], bugs: { file: string; location: string }[]) {
+  return {
+    summary: "Mock evaluation generated offline.",
+    criteria: rubric.map((c) => ({ criterion: c.criterion, score: 70, evidence: ["Mock evidence."] })),
+    hiddenBugs: bugs.map((b, i) => ({ file: b.file, location: b.location, fixed: i === 0, evidence: "Mock evidence." })),
+  };
+}
+
+// Satisfies CHALLENGE_SPEC_SCHEMA so the structured pipeline runs end to end offline.
+function mockSpec(seed: string) {
+  return {
+    title: `Inventory Service (mock ${seed})`,
+    stack: "node",
+    difficulty: "mid",
+    estimatedMinutes: 90,
+    problemDescription: "Build a small inventory service that tracks stock levels per SKU.",
+    requirements: ["Add and remove stock for a SKU", "Report SKUs that fall below their reorder threshold"],
+    technicalSpecifications: ["Node.js 20, no external dependencies"],
+    evaluationRubric: [
+      { criterion: "Correctness", weight: 50, description: "Stock levels and threshold reports are accurate." },
+      { criterion: "Code clarity", weight: 30, description: "The service is easy to read and extend." },
+      { criterion: "Test coverage", weight: 20, description: "Edge cases are covered by tests." },
+    ],
+    hiddenBugs: [
+      {
+        file: "src/inventory.js",
+        location: "Inventory.remove",
+        description: "remove() adds the quantity instead of subtracting it.",
+        expectedFix: "Subtract qty from the current stock, and reject removals that would go below zero.",
+      },
+      {
+        file: "src/inventory.js",
+        location: "Inventory.belowThreshold",
+        description: "Uses <= so SKUs exactly at the threshold are reported.",
+        expectedFix: "Compare with < so only SKUs strictly below the threshold are returned.",
+      },
+    ],
+    submissionInstructions: "Push your work to this branch and open a pull request.",
+    scoringNotes: ["Full marks for correctness need both bugs fixed with a test covering each."],
+    testCommand: "npm test",
+    files: [
+      { path: "package.json", content: MOCK_PACKAGE_JSON },
+      { path: "src/inventory.js", content: MOCK_SOURCE },
+    ],
+    tests: [{ path: "test/inventory.test.js", content: MOCK_TEST }],
+  };
+}
+
+function mockReadme(seed: string): string {
+  return [
+    `# Coding Challenge`,
+    ``,
+    `_Mock challenge ${seed}, generated offline._`,
+    ``,
+    `## Problem Description`,
+    `Build a small inventory service that tracks stock levels per SKU.`,
+    ``,
+    `## Requirements`,
+    `- Add and remove stock for a SKU`,
+    `- Report SKUs that fall below their reorder threshold`,
+    ``,
+    `## Technical Specifications`,
+    `Node.js 20, no external dependencies. Run the tests with \`npm test\`.`,
+    ``,
+    `## Evaluation Criteria`,
+    `- Correctness`,
+    `- Code clarity`,
+    `- Test coverage`,
+    ``,
+    `## Submission Instructions`,
+    `Push your work to this branch and open a pull request.`,
+  ].join("\n");
+}
+
+const MOCK_PACKAGE_JSON = JSON.stringify(
+  { name: "inventory-challenge", private: true, type: "module", scripts: { test: "node --test" } },
+  null,
+  2
+) + "\n";
+
+const MOCK_SOURCE = `export class Inventory {
+  constructor() {
+    this.stock = new Map();
+  }
+
+  add(sku, qty) {
+    this.stock.set(sku, (this.stock.get(sku) || 0) + qty);
+  }
+
+  remove(sku, qty) {
+    this.stock.set(sku, (this.stock.get(sku) || 0) + qty);
+  }
+
+  belowThreshold(threshold) {
+    return [...this.stock].filter(([, qty]) => qty <= threshold).map(([sku]) => sku);
+  }
+}
+`;
+
+const MOCK_TEST = `import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Inventory } from "../src/inventory.js";
+
+test("remove decreases stock", () => {
+  const inv = new Inventory();
+  inv.add("A", 5);
+  inv.remove("A", 2);
+  assert.deepEqual(inv.belowThreshold(3), ["A"]);
+});
+`;
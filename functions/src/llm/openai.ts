@@ -0,0 +1,105 @@
+import axios from "axios";
+import * as logger from "firebase-functions/logger";
+import { CircuitOpenError, circuitBreaker, httpRetryDecision, parseRetryAfter, RETRY_POLICIES, withRetry } from "../resilience.js";
+import { LlmCompletion, LlmCompletionRequest, LlmError, LlmProvider } from "./types.js";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export interface OpenAiProviderOptions {
+  apiKey: string;
+  // Any OpenAI-compatible endpoint; defaults to api.openai.com
+  baseUrl?: string;
+  // When set, talk to Azure OpenAI: deployment-scoped URLs, `api-key` header and api-version query.
+  azure?: {
+    apiVersion: string;
+    // Azure routes by deployment name rather than model; defaults to the requested model.
+    deployment?: string;
+  };
+  timeoutMs?: number;
+}
+
+export function createOpenAiProvider(options: OpenAiProviderOptions): LlmProvider {
+  const name = options.azure ? "azure-openai" : "openai";
+  const baseUrl = (options.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    name,
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const url = options.azure
+        ? `${baseUrl}/openai/deployments/${encodeURIComponent(options.azure.deployment || request.model)}/chat/completions?api-version=${encodeURIComponent(options.azure.apiVersion)}`
+        : `${baseUrl}/chat/completions`;
+      const headers: Record<string, string> = options.azure
+        ? { "api-key": options.apiKey, "Content-Type": "application/json" }
+        : { Authorization: `Bearer ${options.apiKey}`, "Content-Type": "application/json" };
+
+      logger.info(`Making ${name} chat completion call model=${request.model}...`);
+      try {
+        // A completion has no side effects, so timeouts and 5xx are retried as well as rate limits.
+        const response = await withRetry(
+          name,
+          ({ remainingMs }) => axios.post(
+            url,
+            {
+              model: request.model,
+              messages: request.messages,
+              temperature: request.temperature ?? 0.7,
+              max_tokens: request.maxTokens,
+              ...(request.responseFormat === "json" ? { response_format: { type: "json_object" } } : {})
+            },
+            { headers, timeout: Math.min(options.timeoutMs ?? 300000, remainingMs) }
+          ),
+          {
+            policy: RETRY_POLICIES.llm,
+            breaker: circuitBreaker(name),
+            classify: (err) => axios.isAxiosError(err)
+              ? httpRetryDecision({ status: err.response?.status, headers: err.response?.headers, idempotent: true })
+              : { retry: false },
+          }
+        );
+
+        const content = response.data?.choices?.[0]?.message?.content;
+        if (typeof content !== "string") {
+          throw new LlmError("unavailable", `${name} returned no completion content.`, name);
+        }
+        const usage = response.data.usage;
+        return {
+          content: content.trim(),
+          model: response.data.model || request.model,
+          usage: usage ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 } : null,
+        };
+      } catch (error) {
+        throw toLlmError(error, name);
+      }
+    },
+  };
+}
+
+// Same status mapping the HTTP handlers used to do inline.
+function toLlmError(error: unknown, provider: string): LlmError {
+  if (error instanceof LlmError) return error;
+  if (error instanceof CircuitOpenError) {
+    return new LlmError("unavailable", error.message, provider, error.retryAfterMs);
+  }
+  if (!axios.isAxiosError(error)) {
+    return new LlmError("unavailable", `${provider} service error: ${(error as Error)?.message || String(error)}`, provider);
+  }
+
+  const status = error.response?.status;
+  const message = error.response?.data?.error?.message || error.message;
+  logger.error("Axios error details:", { provider, status, message });
+
+  if (status === 404) {
+    return new LlmError("not_found", "OpenAI endpoint not found.", provider);
+  } else if (status === 401 || status === 403) {
+    return new LlmError("unauthorized", "Invalid OpenAI API key.", provider);
+  } else if (status === 429) {
+    // Only reached once the retries have given up
+    return new LlmError(
+      "rate_limited",
+      "OpenAI rate limit still exceeded after retrying. Try again later.",
+      provider,
+      parseRetryAfter(error.response?.headers?.["retry-after"])
+    );
+  }
+  return new LlmError("unavailable", `OpenAI service error: ${message}`, provider);
+}
@@ -0,0 +1,66 @@
+import type { GenerationOptions } from "../generationOptions.js";
+
+// Provider-agnostic chat completion types. Every backend (OpenAI, Azure/OpenAI-compatible,
+// the offline mock) implements LlmProvider, so the pipeline never builds HTTP requests itself.
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens: number;
+  // "json" asks the backend for a single JSON object (OpenAI response_format json_object)
+  responseFormat?: "text" | "json";
+  // Options a challenge is generated with. Real backends only see them as prose in the prompt;
+  // the mock builds its spec from them.
+  generationOptions?: GenerationOptions;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage: LlmUsage | null;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+export type LlmErrorKind = "unauthorized" | "rate_limited" | "not_found" | "unavailable";
+
+const STATUS_BY_KIND: Record<LlmErrorKind, number> = {
+  unauthorized: 401,
+  rate_limited: 429,
+  not_found: 404,
+  unavailable: 503,
+};
+
+/** Normalized provider failure; `status` is the HTTP status we surface to our own callers. */
+export class LlmError extends Error {
+  readonly status: number;
+
+  constructor(
+    public readonly kind: LlmErrorKind,
+    message: string,
+    public readonly provider: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "LlmError";
+    this.status = STATUS_BY_KIND[kind];
+  }
+
+  get code(): string {
+    return `LLM_${this.kind.toUpperCase()}`;
+  }
+}
@@ -0,0 +1,171 @@
+import { FieldValue } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { db } from "./firebaseAdmin.js";
+import type { JobDescriptionSource } from "./jobDescriptions.js";
+import type { LlmCompletion, LlmCompletionRequest, LlmProvider } from "./llm/index.js";
+
+// Token and cost accounting. Every completion made through a metered provider is logged to
+// `llmCalls` with its tokens, model, latency and cost, and folded into `llmUsage` rollups per
+// month, per user per month and per job description per month (all in one batch, so the rollups
+// always match the calls). Costs come from a per-model price table in USD per million tokens.
+export const LLM_CALLS_COLLECTION = "llmCalls";
+export const LLM_USAGE_COLLECTION = "llmUsage";
+
+export type LlmCallPurpose = "generation" | "evaluation";
+
+export interface LlmPrice {
+  // USD per million tokens
+  prompt: number;
+  completion: number;
+}
+
+export type LlmPriceTable = Record<string, LlmPrice>;
+
+// List prices at the time of writing; override or extend with LLM_PRICES.
+export const DEFAULT_LLM_PRICES: LlmPriceTable = {
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4-turbo": { prompt: 10, completion: 30 },
+  "gpt-4": { prompt: 30, completion: 60 },
+  "gpt-3.5-turbo": { prompt: 0.5, completion: 1.5 },
+  mock: { prompt: 0, completion: 0 },
+};
+
+export interface LlmCallContext {
+  purpose: LlmCallPurpose;
+  // Whose budget the call is charged to: the interviewer who owns the job or challenge
+  ownerUid: string;
+  jobId: string | null;
+  challengeId: string | null;
+  jobDescriptionSource: JobDescriptionSource | null;
+}
+
+export interface LlmCost {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Reads LLM_PRICES, e.g. `gpt-4o-mini=0.15/0.6,my-deployment=2.5/10` (USD per million prompt /
+ * completion tokens), on top of DEFAULT_LLM_PRICES.
+ */
+export function llmPricesFromEnv(env: NodeJS.ProcessEnv = process.env): LlmPriceTable {
+  const table = { ...DEFAULT_LLM_PRICES };
+  for (const entry of (env.LLM_PRICES || "").split(",").map((e) => e.trim()).filter(Boolean)) {
+    const match = /^([^=]+)=([\d.]+)\/([\d.]+)$/.exec(entry);
+    if (!match) throw new Error(`Invalid LLM_PRICES entry "${entry}". Use model=prompt/completion in USD per million tokens.`);
+    table[match[1].trim()] = { prompt: Number(match[2]), completion: Number(match[3]) };
+  }
+  return table;
+}
+
+/**
+ * Price for a model as reported by the provider. Providers append dates and prefixes
+ * ("gpt-4o-mini-2024-07-18", "mock-gpt-4"), so the longest table key the name starts with wins.
+ * Unknown models cost null rather than a guess.
+ */
+export function priceFor(model: string, prices: LlmPriceTable): LlmPrice | null {
+  const name = model.toLowerCase();
+  if (prices[name]) return prices[name];
+  if (name.startsWith("mock")) return prices.mock ?? null;
+  const key = Object.keys(prices)
+    .filter((k) => name.startsWith(k.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+export function callCost(price: LlmPrice | null, promptTokens: number, completionTokens: number): number | null {
+  if (!price) return null;
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
+
+/** "2026-10" (UTC), the period rollups are kept for. */
+export function usageMonth(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 7);
+}
+
+/**
+ * Wraps a provider so every successful completion is recorded. `totals()` returns what this
+ * wrapper has spent so far, which the pipeline stores on the challenge. Recording failures are
+ * logged and never fail the call.
+ */
+export function meterLlmProvider(
+  provider: LlmProvider,
+  context: LlmCallContext,
+  prices: LlmPriceTable = llmPricesFromEnv()
+): LlmProvider & { totals(): LlmCost } {
+  const totals: LlmCost = { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+  return {
+    name: provider.name,
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const started = Date.now();
+      const completion = await provider.complete(request);
+      const latencyMs = Date.now() - started;
+      const promptTokens = completion.usage?.promptTokens ?? 0;
+      const completionTokens = completion.usage?.completionTokens ?? 0;
+      const costUsd = callCost(priceFor(completion.model, prices), promptTokens, completionTokens);
+
+      totals.calls++;
+      totals.promptTokens += promptTokens;
+      totals.completionTokens += completionTokens;
+      totals.costUsd += costUsd ?? 0;
+      await recordLlmCall(context, {
+        provider: provider.name,
+        model: completion.model,
+        requestedModel: request.model,
+        promptTokens,
+        completionTokens,
+        usageReported: !!completion.usage,
+        latencyMs,
+        costUsd,
+      }).catch((err) => logger.warn(`Failed to record ${provider.name} call for uid=${context.ownerUid}`, err));
+      return completion;
+    },
+    totals: () => ({ ...totals }),
+  };
+}
+
+interface LlmCallRecord {
+  provider: string;
+  model: string;
+  requestedModel: string;
+  promptTokens: number;
+  completionTokens: number;
+  // False when the provider returned no usage block; tokens are then recorded as 0
+  usageReported: boolean;
+  latencyMs: number;
+  // null when the model is missing from the price table
+  costUsd: number | null;
+}
+
+async function recordLlmCall(context: LlmCallContext, call: LlmCallRecord, now = Date.now()): Promise<void> {
+  const month = usageMonth(now);
+  const jd = context.jobDescriptionSource;
+  const batch = db.batch();
+  batch.create(db.collection(LLM_CALLS_COLLECTION).doc(), {
+    ...context,
+    jobDescriptionId: jd?.id ?? null,
+    ...call,
+    month,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+
+  const increments = {
+    calls: FieldValue.increment(1),
+    promptTokens: FieldValue.increment(call.promptTokens),
+    completionTokens: FieldValue.increment(call.completionTokens),
+    costUsd: FieldValue.increment(call.costUsd ?? 0),
+    // Calls whose model had no price; their cost is missing from costUsd
+    unpricedCalls: FieldValue.increment(call.costUsd === null ? 1 : 0),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+  const rollup = (id: string, fields: Record<string, unknown>) =>
+    batch.set(db.collection(LLM_USAGE_COLLECTION).doc(id), { month, ...fields, ...increments }, { merge: true });
+  rollup(`month_${month}`, { scope: "month", key: month });
+  rollup(`user_${context.ownerUid}_${month}`, { scope: "user", key: context.ownerUid });
+  // Uploaded job descriptions have no library id; they share one "upload" bucket.
+  rollup(`jd_${jd?.id ?? "upload"}_${month}`, { scope: "jobDescription", key: jd?.id ?? "upload", title: jd?.title ?? "Uploaded files" });
+  await batch.commit();
+}
@@ -0,0 +1,111 @@
+import { posix } from "path";
+
+// The files committed to a challenge repo. Everything here is untrusted model output:
+// paths are checked against traversal and the sizes are capped before anything touches disk.
+
+export interface ChallengeFile {
+  path: string;
+  content: string;
+}
+
+export interface ChallengeManifest {
+  readme: string;
+  files: ChallengeFile[];
+  tests: ChallengeFile[];
+  // Optional metadata used to name the repo and pick a template
+  role?: string;
+  candidateName?: string;
+  stack?: string;
+}
+
+export const MANIFEST_LIMITS = {
+  maxFiles: 40,
+  maxPathLength: 200,
+  maxFileBytes: 100 * 1024,
+  maxTotalBytes: 1024 * 1024,
+};
+
+export class ManifestError extends Error {
+  readonly code = "INVALID_MANIFEST";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+// The README is rendered from the manifest's "readme" field, so it may not also appear as a file.
+const RESERVED_PATHS = new Set(["readme.md"]);
+
+/** Wraps a plain markdown response (README-only prompts) as a manifest. */
+export function readmeOnlyManifest(markdown: string): ChallengeManifest {
+  return { readme: markdown.trim(), files: [], tests: [] };
+}
+
+export function validateManifest(manifest: ChallengeManifest): ChallengeManifest {
+  const all = [...manifest.files, ...manifest.tests];
+  if (all.length > MANIFEST_LIMITS.maxFiles) {
+    throw new ManifestError(`Manifest has ${all.length} files; the limit is ${MANIFEST_LIMITS.maxFiles}.`);
+  }
+
+  const seen = new Set<string>();
+  let total = Buffer.byteLength(manifest.readme, "utf-8");
+  const normalize = (file: ChallengeFile): ChallengeFile => {
+    const path = normalizePath(file.path);
+    const key = path.toLowerCase();
+    if (seen.has(key)) throw new ManifestError(`Duplicate file path: ${path}`);
+    seen.add(key);
+
+    const size = Buffer.byteLength(file.content, "utf-8");
+    if (size > MANIFEST_LIMITS.maxFileBytes) {
+      throw new ManifestError(`${path} is ${size} bytes; the per-file limit is ${MANIFEST_LIMITS.maxFileBytes}.`);
+    }
+    total += size;
+    return { path, content: file.content };
+  };
+
+  const files = manifest.files.map(normalize);
+  const tests = manifest.tests.map(normalize);
+  if (total > MANIFEST_LIMITS.maxTotalBytes) {
+    throw new ManifestError(`Manifest totals ${total} bytes; the limit is ${MANIFEST_LIMITS.maxTotalBytes}.`);
+  }
+  return { ...manifest, files, tests };
+}
+
+/** Rejects anything that is not a plain relative path inside the repository. */
+export function normalizePath(raw: string): string {
+  if (!raw || raw.length > MANIFEST_LIMITS.maxPathLength) {
+    throw new ManifestError(`Invalid file path length: ${JSON.stringify(raw?.slice(0, 50))}`);
+  }
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u001F\\:*?"<>|]/.test(raw)) {
+    throw new ManifestError(`File path contains illegal characters: ${JSON.stringify(raw)}`);
+  }
+  if (raw.startsWith("/") || raw.startsWith("~")) {
+    throw new ManifestError(`File path must be relative: ${raw}`);
+  }
+  const segments = raw.split("/");
+  if (segments.some((s) => s === "..")) {
+    throw new ManifestError(`File path may not traverse outside the repository: ${raw}`);
+  }
+  const path = posix.normalize(raw).replace(/^\.\//, "");
+  if (!path || path === "." || path.endsWith("/")) {
+    throw new ManifestError(`File path must name a file: ${raw}`);
+  }
+  if (path.split("/").some((s) => s.toLowerCase() === ".git")) {
+    throw new ManifestError(`File path may not touch git internals: ${raw}`);
+  }
+  if (RESERVED_PATHS.has(path.toLowerCase())) {
+    throw new ManifestError(`${path} is generated from the "readme" field and may not be listed as a file.`);
+  }
+  return path;
+}
+
+/** Flattens a manifest into the files committed to the challenge repo, README first. */
+export function manifestToFiles(manifest: ChallengeManifest, repoName: string): ChallengeFile[] {
+  return [
+    { path: "README.md", content: `# ${repoName}\n\n${manifest.readme}` },
+    ...manifest.files,
+    ...manifest.tests,
+  ];
+}
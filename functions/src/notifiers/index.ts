@@ -0,0 +1,28 @@
+import { createLogNotifier } from "./log.js";
+import type { Notifier } from "./types.js";
+import { createWebhookNotifier } from "./webhook.js";
+
+export * from "./types.js";
+
+export type NotifierName = "log" | "webhook" | "none";
+
+/**
+ * Reads the notifier from the environment: NOTIFIER (log | webhook | none, default log)
+ * and NOTIFY_WEBHOOK_URL for the webhook notifier.
+ */
+export function createNotifierFromEnv(env: NodeJS.ProcessEnv = process.env): Notifier {
+  const name = (env.NOTIFIER || "log").toLowerCase();
+  switch (name) {
+    case "none":
+      return { name: "none", notify: async () => undefined };
+    case "log":
+      return createLogNotifier();
+    case "webhook":
+      if (!env.NOTIFY_WEBHOOK_URL) {
+        throw new Error("NOTIFY_WEBHOOK_URL must be set when NOTIFIER=webhook.");
+      }
+      return createWebhookNotifier({ url: env.NOTIFY_WEBHOOK_URL });
+    default:
+      throw new Error(`Unknown NOTIFIER "${env.NOTIFIER}". Use log, webhook or none.`);
+  }
+}
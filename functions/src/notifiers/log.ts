@@ -0,0 +1,12 @@
+import * as logger from "firebase-functions/logger";
+import type { Notification, Notifier } from "./types.js";
+
+// Writes notifications to the function logs; the default until a real channel is configured.
+export function createLogNotifier(): Notifier {
+  return {
+    name: "log",
+    async notify(notification: Notification) {
+      logger.info(`Notification ${notification.kind} for uid=${notification.ownerUid}: ${notification.title}`, notification);
+    },
+  };
+}
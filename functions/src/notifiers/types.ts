@@ -0,0 +1,20 @@
+// Interviewer notifications (candidate submitted, and so on). The pipeline only talks to a
+// Notifier, so logging, a chat/webhook integration or nothing at all are interchangeable.
+
+export type NotificationKind = "submission";
+
+export interface Notification {
+  kind: NotificationKind;
+  challengeId: string;
+  ownerUid: string;
+  // Interviewer's email, when their account has one
+  ownerEmail: string | null;
+  title: string;
+  message: string;
+  url: string | null;
+}
+
+export interface Notifier {
+  readonly name: string;
+  notify(notification: Notification): Promise<void>;
+}
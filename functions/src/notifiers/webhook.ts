@@ -0,0 +1,18 @@
+import axios from "axios";
+import type { Notification, Notifier } from "./types.js";
+
+export interface WebhookNotifierOptions {
+  url: string;
+}
+
+// POSTs each notification as JSON. The top-level `text` field makes the payload render as a
+// message in Slack and Google Chat incoming webhooks; other receivers can use the full object.
+export function createWebhookNotifier(options: WebhookNotifierOptions): Notifier {
+  return {
+    name: "webhook",
+    async notify(notification: Notification) {
+      const text = [notification.title, notification.message, notification.url].filter(Boolean).join("\n");
+      await axios.post(options.url, { text, ...notification }, { timeout: 10_000 });
+    },
+  };
+}
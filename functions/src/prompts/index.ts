@@ -0,0 +1,77 @@
+import { challengeReadme } from "./challengeReadme.js";
+import { challengeSpec } from "./challengeSpec.js";
+import { PromptTemplate, PromptTemplateError, PromptTemplateRef } from "./types.js";
+
+export * from "./types.js";
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+export const DEFAULT_TEMPLATE_ID = challengeSpec.id;
+
+// Jobs, invitations and challenges stored before the registry existed name their prompt "v1"/"v2".
+const LEGACY_IDS: Record<string, string> = {
+  v1: challengeReadme.id,
+  v2: challengeSpec.id,
+};
+
+const REGISTRY = new Map<string, PromptTemplate>(
+  [challengeReadme, challengeSpec].map((template) => [template.id, checkTemplate(template)])
+);
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return [...REGISTRY.values()];
+}
+
+/** Looks up the current version of a template by id (or legacy "v1"/"v2" name). */
+export function getPromptTemplate(id: string): PromptTemplate {
+  const template = REGISTRY.get(LEGACY_IDS[id] ?? id);
+  if (!template) {
+    throw new PromptTemplateError(
+      `Unknown prompt template "${id}". Use one of ${[...REGISTRY.keys()].join(", ")}.`,
+      "UNKNOWN_TEMPLATE"
+    );
+  }
+  return template;
+}
+
+export function templateRef(template: PromptTemplate): PromptTemplateRef {
+  return { id: template.id, version: template.version };
+}
+
+/** "challenge-spec@5"; what challenge history shows as the prompt version. */
+export function formatTemplateRef(ref: PromptTemplateRef): string {
+  return `${ref.id}@${ref.version}`;
+}
+
+/**
+ * Substitutes every `{{name}}` in one pass, so placeholders inside the supplied values (a resume
+ * quoting template syntax, say) are left alone. Values for undeclared variables are ignored.
+ */
+export function renderPrompt(template: PromptTemplate, values: Record<string, string>): string {
+  const missing = template.variables.filter((name) => values[name] === undefined);
+  if (missing.length) {
+    throw new PromptTemplateError(
+      `Prompt template ${template.id}@${template.version} is missing ${missing.join(", ")}.`,
+      "MISSING_VARIABLE"
+    );
+  }
+  return template.template.replace(PLACEHOLDER, (_, name: string) => values[name]);
+}
+
+// Run once at load so a typo in a template fails the deploy rather than a generation job.
+function checkTemplate(template: PromptTemplate): PromptTemplate {
+  const used = new Set([...template.template.matchAll(PLACEHOLDER)].map((m) => m[1]));
+  const undeclared = [...used].filter((name) => !template.variables.includes(name));
+  const unused = template.variables.filter((name) => !used.has(name));
+  if (undeclared.length || unused.length) {
+    throw new PromptTemplateError(
+      `Prompt template ${template.id} has undeclared (${undeclared.join(", ")}) or unused (${unused.join(", ")}) variables.`,
+      "INVALID_TEMPLATE"
+    );
+  }
+  const latest = template.changelog[template.changelog.length - 1];
+  if (latest?.version !== template.version) {
+    throw new PromptTemplateError(`Prompt template ${template.id} has no changelog entry for version ${template.version}.`, "INVALID_TEMPLATE");
+  }
+  return template;
+}
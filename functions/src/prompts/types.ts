@@ -0,0 +1,38 @@
+// Prompt templates are plain data: the text with `{{name}}` placeholders, the variables it
+// declares and the model settings it was tuned with. Bump `version` and add a changelog entry
+// whenever the text or settings change, so challenges can be compared across versions.
+
+export interface PromptChange {
+  version: number;
+  notes: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description: string;
+  // "spec" prompts ask for a JSON challenge spec; "markdown" prompts return the README only.
+  format: "markdown" | "spec";
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  // Every `{{name}}` in the template must be listed here, and every listed name must be supplied.
+  variables: readonly string[];
+  template: string;
+  changelog: PromptChange[];
+}
+
+// Recorded on jobs and challenges
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+export type PromptTemplateErrorCode = "UNKNOWN_TEMPLATE" | "INVALID_TEMPLATE" | "MISSING_VARIABLE";
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public readonly code: PromptTemplateErrorCode) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
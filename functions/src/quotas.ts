@@ -0,0 +1,233 @@
+import { DocumentData, DocumentReference, FieldValue } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { adminAuth, db } from "./firebaseAdmin.js";
+import { USERS_COLLECTION } from "./roles.js";
+
+// Daily generation quotas, per user and across the whole deployment. Usage lives in
+// `quotaUsage/{uid}_{day}` and `quotaUsage/global_{day}` (UTC days), so counters reset by
+// moving to a new document rather than by a cleanup job. Generations are reserved in a
+// transaction when a job is enqueued; tokens and repos are added as the worker spends them.
+// Admins can override a user's limits, stored as `quotaLimits` on `users/{uid}`.
+export const QUOTA_USAGE_COLLECTION = "quotaUsage";
+
+export const QUOTA_METRICS = ["generations", "tokens", "repos"] as const;
+export type QuotaMetric = (typeof QUOTA_METRICS)[number];
+export type QuotaLimits = Record<QuotaMetric, number>;
+export type QuotaUsage = Record<QuotaMetric, number>;
+
+export interface QuotaConfig {
+  user: QuotaLimits;
+  global: QuotaLimits;
+}
+
+export interface QuotaStatus {
+  day: string;
+  resetsAt: string;
+  // The user's effective limits (defaults or their override)
+  limits: QuotaLimits;
+  usage: QuotaUsage;
+  // What the user can still spend today, also capped by the global quota
+  remaining: QuotaUsage;
+  overridden: boolean;
+}
+
+const METRIC_LABELS: Record<QuotaMetric, string> = {
+  generations: "challenge generations",
+  tokens: "model tokens",
+  repos: "new repositories",
+};
+
+export class QuotaError extends Error {
+  readonly code = "QUOTA_EXCEEDED";
+  readonly status = 429;
+
+  constructor(
+    message: string,
+    public readonly metric: QuotaMetric,
+    public readonly scope: "user" | "global",
+    public readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+export class QuotaOverrideError extends Error {
+  readonly code = "INVALID_QUOTA";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaOverrideError";
+  }
+}
+
+/**
+ * Reads QUOTA_DAILY_GENERATIONS / _TOKENS / _REPOS (per user, default 20 / 200000 / 20) and
+ * QUOTA_GLOBAL_DAILY_GENERATIONS / _TOKENS / _REPOS (deployment-wide, default 500 / 5000000 / 200).
+ */
+export function quotaConfigFromEnv(env: NodeJS.ProcessEnv = process.env): QuotaConfig {
+  const limit = (name: string, fallback: number) => {
+    const value = Number(env[name]);
+    return env[name] && Number.isInteger(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    user: {
+      generations: limit("QUOTA_DAILY_GENERATIONS", 20),
+      tokens: limit("QUOTA_DAILY_TOKENS", 200_000),
+      repos: limit("QUOTA_DAILY_REPOS", 20),
+    },
+    global: {
+      generations: limit("QUOTA_GLOBAL_DAILY_GENERATIONS", 500),
+      tokens: limit("QUOTA_GLOBAL_DAILY_TOKENS", 5_000_000),
+      repos: limit("QUOTA_GLOBAL_DAILY_REPOS", 200),
+    },
+  };
+}
+
+/** UTC day the usage counts towards, e.g. "2026-10-19". */
+export function quotaDay(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function nextReset(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.getTime();
+}
+
+function usageRef(key: string, day: string): DocumentReference {
+  return db.collection(QUOTA_USAGE_COLLECTION).doc(`${key}_${day}`);
+}
+
+function readUsage(data: DocumentData | undefined): QuotaUsage {
+  return { generations: data?.generations ?? 0, tokens: data?.tokens ?? 0, repos: data?.repos ?? 0 };
+}
+
+function effectiveLimits(defaults: QuotaLimits, override: Partial<QuotaLimits> | null | undefined): QuotaLimits {
+  return { ...defaults, ...(override ?? {}) };
+}
+
+/**
+ * Checks every user and global limit and, when all have room, counts one generation against both
+ * in the same transaction, so concurrent requests cannot overshoot. Throws QuotaError otherwise.
+ */
+export async function reserveGeneration(uid: string, config: QuotaConfig, now = Date.now()): Promise<void> {
+  const day = quotaDay(now);
+  const userRef = usageRef(uid, day);
+  const globalRef = usageRef("global", day);
+  await db.runTransaction(async (tx) => {
+    const [userSnap, globalSnap, profile] = await Promise.all([
+      tx.get(userRef),
+      tx.get(globalRef),
+      tx.get(db.collection(USERS_COLLECTION).doc(uid)),
+    ]);
+    const checks: { scope: "user" | "global"; limits: QuotaLimits; usage: QuotaUsage }[] = [
+      { scope: "user", limits: effectiveLimits(config.user, profile.get("quotaLimits")), usage: readUsage(userSnap.data()) },
+      { scope: "global", limits: config.global, usage: readUsage(globalSnap.data()) },
+    ];
+    for (const { scope, limits, usage } of checks) {
+      for (const metric of QUOTA_METRICS) {
+        // A generation needs one more of each; tokens just need budget left.
+        if (usage[metric] >= limits[metric]) throw exceeded(metric, scope, limits[metric], now);
+      }
+    }
+    tx.set(userRef, { uid, day, generations: FieldValue.increment(1), updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+    tx.set(globalRef, { uid: "global", day, generations: FieldValue.increment(1), updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+  });
+}
+
+/** Gives back a reservation when the job could not be enqueued after all. */
+export async function releaseGeneration(uid: string, now = Date.now()): Promise<void> {
+  const day = quotaDay(now);
+  const batch = db.batch();
+  batch.set(usageRef(uid, day), { generations: FieldValue.increment(-1) }, { merge: true });
+  batch.set(usageRef("global", day), { generations: FieldValue.increment(-1) }, { merge: true });
+  await batch.commit();
+}
+
+/** Adds tokens or repos the worker actually spent. Never throws; usage is best effort once spent. */
+export async function recordQuotaUsage(uid: string, usage: Partial<Omit<QuotaUsage, "generations">>, now = Date.now()): Promise<void> {
+  const day = quotaDay(now);
+  const increments = Object.fromEntries(
+    Object.entries(usage).filter(([, n]) => n).map(([metric, n]) => [metric, FieldValue.increment(n as number)])
+  );
+  if (!Object.keys(increments).length) return;
+  const batch = db.batch();
+  batch.set(usageRef(uid, day), { uid, day, ...increments, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+  batch.set(usageRef("global", day), { uid: "global", day, ...increments, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+  await batch.commit().catch((err) => logger.warn(`Failed to record quota usage for ${uid}`, err));
+}
+
+export async function quotaStatus(uid: string, config: QuotaConfig, now = Date.now()): Promise<QuotaStatus> {
+  const day = quotaDay(now);
+  const [userSnap, globalSnap, profile] = await Promise.all([
+    usageRef(uid, day).get(),
+    usageRef("global", day).get(),
+    db.collection(USERS_COLLECTION).doc(uid).get(),
+  ]);
+  const override = profile.get("quotaLimits") as Partial<QuotaLimits> | null | undefined;
+  const limits = effectiveLimits(config.user, override);
+  const usage = readUsage(userSnap.data());
+  const globalUsage = readUsage(globalSnap.data());
+  const remaining = Object.fromEntries(
+    QUOTA_METRICS.map((m) => [m, Math.max(0, Math.min(limits[m] - usage[m], config.global[m] - globalUsage[m]))])
+  ) as QuotaUsage;
+  return { day, resetsAt: new Date(nextReset(now)).toISOString(), limits, usage, remaining, overridden: !!override };
+}
+
+/**
+ * Validates an admin override: any subset of the metrics as non-negative integers, or null to
+ * return the user to the defaults. Throws QuotaOverrideError for anything else.
+ */
+export function parseQuotaOverride(value: unknown): Partial<QuotaLimits> | null {
+  if (value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new QuotaOverrideError(`Limits must be an object with any of ${QUOTA_METRICS.join(", ")}, or null.`);
+  }
+  const override: Partial<QuotaLimits> = {};
+  for (const [metric, limit] of Object.entries(value as Record<string, unknown>)) {
+    if (!(QUOTA_METRICS as readonly string[]).includes(metric)) {
+      throw new QuotaOverrideError(`Unknown quota "${metric}". Use ${QUOTA_METRICS.join(", ")}.`);
+    }
+    if (limit === null || limit === undefined) continue;
+    if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 0) {
+      throw new QuotaOverrideError(`The ${metric} limit must be a whole number of zero or more.`);
+    }
+    override[metric as QuotaMetric] = limit;
+  }
+  return Object.keys(override).length ? override : null;
+}
+
+export async function setQuotaOverride(
+  targetEmail: string,
+  override: Partial<QuotaLimits> | null,
+  setBy: string
+): Promise<{ uid: string; email: string }> {
+  const target = await adminAuth.getUserByEmail(targetEmail);
+  await db.collection(USERS_COLLECTION).doc(target.uid).set(
+    {
+      email: target.email ?? targetEmail,
+      quotaLimits: override,
+      quotaLimitsSetBy: setBy,
+      quotaLimitsUpdatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+  logger.info(`Quota override for ${target.uid} set by ${setBy}`, { override });
+  return { uid: target.uid, email: target.email ?? targetEmail };
+}
+
+function exceeded(metric: QuotaMetric, scope: "user" | "global", limit: number, now: number): QuotaError {
+  const retryAfterSeconds = Math.ceil((nextReset(now) - now) / 1000);
+  const wait = formatWait(retryAfterSeconds);
+  const message = scope === "user"
+    ? `You have reached your daily limit of ${limit} ${METRIC_LABELS[metric]}. Try again in ${wait}.`
+    : `The service has reached today's limit of ${METRIC_LABELS[metric]} for everyone. Try again in ${wait}.`;
+  return new QuotaError(message, metric, scope, retryAfterSeconds);
+}
+
+function formatWait(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.ceil((seconds % 3600) / 60);
+  return hours ? `${hours}h ${minutes}m` : `${minutes} minutes`;
+}
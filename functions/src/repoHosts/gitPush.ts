@@ -0,0 +1,102 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import { dirname, join } from "path";
+import simpleGit from "simple-git";
+import * as logger from "firebase-functions/logger";
+import { circuitBreaker, RETRY_POLICIES, withRetry } from "../resilience.js";
+import type { RepoFile } from "./types.js";
+
+// Network trouble talking to the remote. Anything else (bad credentials, a rejected push) fails at once.
+const TRANSIENT_GIT_ERROR =
+  /could not resolve host|connection (timed out|reset|refused)|operation timed out|early eof|rpc failed|remote end hung up|unexpected disconnect|temporary failure|returned error: (429|5\d\d)/i;
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitPushOptions {
+  remoteUrl: string;
+  branch: string;
+  files: RepoFile[];
+  message: string;
+  author: GitAuthor;
+}
+
+/**
+ * Clones the remote into a scratch directory, writes the files on a new branch, commits them
+ * together and pushes. Shared by the hosts that push over plain git (GitLab, local bare repos).
+ */
+export async function pushFilesWithGit(options: GitPushOptions): Promise<{ commitSha: string }> {
+  const localPath = mkdtempSync(join(os.tmpdir(), "challenge-"));
+  try {
+    logger.info("Cloning repo locally...");
+    await retryGit((abort) => cloneInto(options.remoteUrl, localPath, abort));
+
+    // Paths were validated by the manifest parser, so joining them onto the clone stays inside it.
+    logger.info(`Writing ${options.files.length} files...`);
+    for (const file of options.files) {
+      const target = join(localPath, file.path);
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, file.content);
+    }
+
+    const repoGit = simpleGit(localPath);
+    // Ensure git identity is set for this ephemeral environment (Cloud Functions container)
+    await repoGit.addConfig("user.name", options.author.name);
+    await repoGit.addConfig("user.email", options.author.email);
+    await repoGit.checkoutLocalBranch(options.branch);
+    await repoGit.add(".");
+    const commit = await repoGit.commit(options.message);
+    // Pushing the same commit again is harmless, so a push that timed out is simply repeated.
+    await retryGit((abort) => simpleGit({ baseDir: localPath, abort }).push("origin", options.branch));
+    return { commitSha: await repoGit.revparse(["HEAD"]) || commit.commit };
+  } finally {
+    rmSync(localPath, { recursive: true, force: true });
+  }
+}
+
+export interface GitCloneOptions {
+  remoteUrl: string;
+  // Credential-free URL written back as the clone's origin
+  publicUrl: string;
+  branch: string;
+  dir: string;
+  // Sent as an http.extraHeader for this one command, so the credential is never part of a URL
+  // (which git and simple-git echo in errors) and is not written to the clone's config
+  authorization?: string;
+}
+
+/**
+ * Clones the remote into `dir` with `branch` checked out. The remote is reset to `publicUrl`
+ * afterwards so code later run inside the clone cannot read the host token from .git/config.
+ */
+export async function cloneBranchWithGit(options: GitCloneOptions): Promise<{ headSha: string }> {
+  const config = options.authorization ? [`http.extraHeader=Authorization: ${options.authorization}`] : [];
+  await retryGit((abort) => cloneInto(options.remoteUrl, options.dir, abort, ["--branch", options.branch], config));
+  const repoGit = simpleGit(options.dir);
+  await repoGit.remote(["set-url", "origin", options.publicUrl]);
+  return { headSha: (await repoGit.revparse(["HEAD"])).trim() };
+}
+
+// Each attempt gets a signal that kills git once the retry budget is spent.
+function retryGit<T>(work: (abort: AbortSignal) => Promise<T>): Promise<T> {
+  return withRetry("git", ({ remainingMs }) => work(AbortSignal.timeout(remainingMs)), {
+    policy: RETRY_POLICIES.git,
+    breaker: circuitBreaker("git"),
+    classify: (err) => ({ retry: TRANSIENT_GIT_ERROR.test(err instanceof Error ? err.message : String(err)) }),
+  });
+}
+
+// A failed attempt can leave a partial clone behind, and git only clones into an empty directory.
+async function cloneInto(remoteUrl: string, dir: string, abort: AbortSignal, args: string[] = [], config: string[] = []): Promise<void> {
+  rmSync(dir, { recursive: true, force: true });
+  await simpleGit({ config, abort }).clone(remoteUrl, dir, args);
+}
+
+export function gitAuthorFromEnv(fallbackUser: string): GitAuthor {
+  return {
+    name: process.env.GIT_AUTHOR_NAME || fallbackUser || "automation-bot",
+    email: process.env.GIT_AUTHOR_EMAIL || `${fallbackUser || "automation"}@users.noreply.github.com`,
+  };
+}
@@ -0,0 +1,308 @@
+import { Octokit } from "@octokit/rest";
+import * as logger from "firebase-functions/logger";
+import { circuitBreaker, httpRetryDecision, RETRY_POLICIES, withRetry } from "../resilience.js";
+import { cloneBranchWithGit, gitAuthorFromEnv } from "./gitPush.js";
+import {
+  AccessGrant,
+  AccessState,
+  CreateRepoOptions,
+  LockMode,
+  LockRepoOptions,
+  PushBranchOptions,
+  RepoHost,
+  RepoHostError,
+  RepoLinks,
+  RepoRef
+} from "./types.js";
+
+export interface GitHubHostOptions {
+  token: string;
+  username: string;
+  // Organization that owns challenge repos; falls back to the token owner's account
+  org?: string;
+  // Template repositories ("owner/name") keyed by stack, with "default" as the fallback
+  templates?: Record<string, string>;
+  // Repo webhook added to every new challenge repo so githubWebhook hears about candidate activity
+  webhook?: { url: string; secret: string };
+  lockMode?: LockMode;
+}
+
+const WEBHOOK_EVENTS = ["push", "pull_request", "issues", "member"];
+
+const TEMPLATE_READY_ATTEMPTS = 15;
+const TEMPLATE_READY_DELAY_MS = 2000;
+
+// Blob uploads in flight at once; GitHub's secondary rate limits punish bursts of writes.
+const BLOB_CONCURRENCY = 4;
+
+export function createGitHubHost(options: GitHubHostOptions): RepoHost {
+  const octokit = new Octokit({ auth: options.token });
+  // Every API call goes through the retry policy and the shared GitHub breaker. POSTs (creating
+  // repos, refs, webhooks) are only retried on rate limits, so a slow success is never repeated.
+  // Each attempt is aborted when the retry budget runs out, so a hung call cannot outlast it.
+  octokit.hook.wrap("request", (request, params) =>
+    withRetry(
+      "github",
+      async ({ remainingMs }) => request({ ...params, request: { ...params.request, signal: AbortSignal.timeout(remainingMs) } }),
+      {
+        policy: RETRY_POLICIES.github,
+        breaker: circuitBreaker("github"),
+        classify: (err) => {
+          const { status, response } = err as { status?: number; response?: { headers?: Record<string, unknown> } };
+          return httpRetryDecision({ status, headers: response?.headers, idempotent: params.method !== "POST" });
+        },
+      }
+    )
+  );
+
+  return {
+    name: "github",
+
+    async createRepo({ name, description, private: isPrivate, stack }: CreateRepoOptions): Promise<RepoRef> {
+      const owner = options.org || options.username;
+      const template = pickTemplate(options.templates, stack);
+      let data;
+      if (template) {
+        logger.info(`Creating GitHub repo ${owner}/${name} from template ${template.owner}/${template.repo}...`);
+        ({ data } = await octokit.rest.repos.createUsingTemplate({
+          template_owner: template.owner,
+          template_repo: template.repo,
+          owner,
+          name,
+          description,
+          private: isPrivate,
+        }));
+        await waitForDefaultBranch(octokit, data.owner.login, data.name, data.default_branch || "main");
+      } else if (options.org) {
+        logger.info(`Creating GitHub repo ${owner}/${name}...`);
+        ({ data } = await octokit.rest.repos.createInOrg({
+          org: options.org,
+          name,
+          description,
+          private: isPrivate,
+          auto_init: true,
+        }));
+      } else {
+        logger.info(`Creating GitHub repo ${owner}/${name}...`);
+        ({ data } = await octokit.rest.repos.createForAuthenticatedUser({
+          name,
+          description,
+          private: isPrivate,
+          auto_init: true,
+        }));
+      }
+      logger.info(`Repository created: ${data.html_url} (private=${data.private})`);
+      if (options.webhook) {
+        await addWebhook(octokit, data.owner.login, data.name, options.webhook);
+      }
+      return {
+        host: "github",
+        owner: data.owner.login,
+        name: data.name,
+        fullName: data.full_name,
+        webUrl: data.html_url,
+        defaultBranch: data.default_branch || "main",
+      };
+    },
+
+    // Written through the Git Data API (blobs, one tree, one commit, then the branch ref), so
+    // nothing is cloned into the container and the token never appears in a git remote URL. The
+    // branch only appears once the commit is complete.
+    async pushBranch(repo: RepoRef, { branch, files, message }: PushBranchOptions) {
+      const target = { owner: repo.owner, repo: repo.name };
+      let baseSha: string;
+      try {
+        const { data: head } = await octokit.rest.git.getRef({ ...target, ref: `heads/${repo.defaultBranch}` });
+        baseSha = head.object.sha;
+      } catch (err) {
+        // 409: the repository has no commits, which the Git Data API cannot build on
+        const status = (err as { status?: number }).status;
+        if (status !== 404 && status !== 409) throw err;
+        throw new RepoHostError(`${repo.fullName} has no ${repo.defaultBranch} branch to branch from.`, "github", "EMPTY_REPO");
+      }
+      const { data: baseCommit } = await octokit.rest.git.getCommit({ ...target, commit_sha: baseSha });
+
+      logger.info(`Uploading ${files.length} files to ${repo.fullName}...`);
+      const blobShas = await mapWithConcurrency(files, BLOB_CONCURRENCY, async (file) => {
+        const { data } = await octokit.rest.git.createBlob({ ...target, content: file.content, encoding: "utf-8" });
+        return data.sha;
+      });
+      const { data: tree } = await octokit.rest.git.createTree({
+        ...target,
+        base_tree: baseCommit.tree.sha,
+        tree: files.map((file, i) => ({ path: file.path, mode: "100644" as const, type: "blob" as const, sha: blobShas[i] })),
+      });
+      const author = gitAuthorFromEnv(options.username);
+      const { data: commit } = await octokit.rest.git.createCommit({
+        ...target,
+        message,
+        tree: tree.sha,
+        parents: [baseSha],
+        author: { ...author, date: new Date().toISOString() },
+      });
+
+      try {
+        await octokit.rest.git.createRef({ ...target, ref: `refs/heads/${branch}`, sha: commit.sha });
+      } catch (err) {
+        // 422: the branch exists from an earlier, interrupted run; point it at the new commit.
+        if ((err as { status?: number }).status !== 422) throw err;
+        await octokit.rest.git.updateRef({ ...target, ref: `heads/${branch}`, sha: commit.sha, force: true });
+      }
+      logger.info(`Pushed ${branch} to ${repo.fullName} at ${commit.sha}`);
+      return { commitSha: commit.sha };
+    },
+
+    async fetchBranch(repo: RepoRef, branch: string, dir: string) {
+      const url = `https://github.com/${repo.fullName}.git`;
+      return cloneBranchWithGit({
+        remoteUrl: url,
+        publicUrl: url,
+        branch,
+        dir,
+        authorization: `Basic ${Buffer.from(`${options.username}:${options.token}`).toString("base64")}`,
+      });
+    },
+
+    links(repo: RepoRef, branch: string): RepoLinks {
+      return {
+        repoUrl: repo.webUrl,
+        branchUrl: `${repo.webUrl}/tree/${branch}`,
+        ideUrl: `https://vscode.dev/github/${repo.fullName}/tree/${branch}`,
+        cloneUrl: `https://github.com/${repo.fullName}.git`,
+      };
+    },
+
+    // Push permission on this one repo only; GitHub sends the candidate an invitation email.
+    async grantAccess(repo: RepoRef, username: string): Promise<AccessGrant> {
+      const response = await octokit.rest.repos.addCollaborator({
+        owner: repo.owner,
+        repo: repo.name,
+        username,
+        permission: "push",
+      });
+      // 201 returns the pending invitation; 204 means they already had access
+      if (response.status === 201 && response.data) {
+        return { state: "pending", invitationId: response.data.id };
+      }
+      return { state: "active" };
+    },
+
+    async accessState(repo: RepoRef, username: string, grant: AccessGrant): Promise<AccessState> {
+      try {
+        await octokit.rest.repos.checkCollaborator({ owner: repo.owner, repo: repo.name, username });
+        return "active";
+      } catch (err) {
+        if ((err as { status?: number }).status !== 404) throw err;
+      }
+      if (grant.invitationId) {
+        const { data } = await octokit.rest.repos.listInvitations({ owner: repo.owner, repo: repo.name, per_page: 100 });
+        if (data.some((inv) => inv.id === grant.invitationId)) return "pending";
+      }
+      return "revoked";
+    },
+
+    async revokeAccess(repo: RepoRef, username: string, grant: AccessGrant): Promise<void> {
+      const { invitationId } = grant;
+      if (invitationId) {
+        await ignoreNotFound(() =>
+          octokit.rest.repos.deleteInvitation({ owner: repo.owner, repo: repo.name, invitation_id: invitationId })
+        );
+      }
+      await ignoreNotFound(() => octokit.rest.repos.removeCollaborator({ owner: repo.owner, repo: repo.name, username }));
+    },
+
+    async lockRepo(repo: RepoRef, { branch, tag }: LockRepoOptions) {
+      const { data: head } = await octokit.rest.git.getRef({ owner: repo.owner, repo: repo.name, ref: `heads/${branch}` });
+      const commitSha = head.object.sha;
+      try {
+        await octokit.rest.git.createRef({ owner: repo.owner, repo: repo.name, ref: `refs/tags/${tag}`, sha: commitSha });
+      } catch (err) {
+        // 422: the tag exists from an earlier, interrupted run
+        if ((err as { status?: number }).status !== 422) throw err;
+      }
+      if (options.lockMode === "protect") {
+        // Branch protection on private repos needs a paid plan; archiving works everywhere.
+        await octokit.rest.repos.updateBranchProtection({
+          owner: repo.owner,
+          repo: repo.name,
+          branch,
+          required_status_checks: null,
+          enforce_admins: false,
+          required_pull_request_reviews: null,
+          restrictions: null,
+          lock_branch: true,
+        });
+      } else {
+        await octokit.rest.repos.update({ owner: repo.owner, repo: repo.name, archived: true });
+      }
+      return { commitSha, tag };
+    },
+
+    // Needs the delete_repo scope (or admin on the org repo); callers fall back to archiving.
+    async deleteRepo(repo: RepoRef) {
+      await ignoreNotFound(() => octokit.rest.repos.delete({ owner: repo.owner, repo: repo.name }));
+    },
+
+    async archiveRepo(repo: RepoRef) {
+      await ignoreNotFound(() => octokit.rest.repos.update({ owner: repo.owner, repo: repo.name, archived: true }));
+    },
+  };
+}
+
+function pickTemplate(templates: Record<string, string> | undefined, stack?: string) {
+  const ref = templates?.[(stack || "").toLowerCase()] || templates?.default;
+  if (!ref) return undefined;
+  const [owner, repo] = ref.split("/");
+  return owner && repo ? { owner, repo } : undefined;
+}
+
+// Template generation is asynchronous on GitHub's side: the repo exists before its contents do.
+// Wait for the default branch so the scaffold push has something to branch from.
+async function waitForDefaultBranch(octokit: Octokit, owner: string, repo: string, branch: string) {
+  for (let attempt = 1; attempt <= TEMPLATE_READY_ATTEMPTS; attempt++) {
+    try {
+      await octokit.rest.repos.getBranch({ owner, repo, branch });
+      return;
+    } catch (err) {
+      if ((err as { status?: number }).status !== 404) throw err;
+      await new Promise((resolve) => setTimeout(resolve, TEMPLATE_READY_DELAY_MS));
+    }
+  }
+  throw new RepoHostError(`Template contents for ${owner}/${repo} were not ready in time.`, "github", "TEMPLATE_NOT_READY");
+}
+
+// Like Promise.all over items.map(work), with at most `limit` calls running at a time.
+async function mapWithConcurrency<T, R>(items: T[], limit: number, work: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await work(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function ignoreNotFound(call: () => Promise<unknown>) {
+  try {
+    await call();
+  } catch (err) {
+    if ((err as { status?: number }).status !== 404) throw err;
+  }
+}
+
+// Activity tracking is best effort: a repo without the hook still works, it just reports no progress.
+async function addWebhook(octokit: Octokit, owner: string, repo: string, webhook: { url: string; secret: string }) {
+  try {
+    await octokit.rest.repos.createWebhook({
+      owner,
+      repo,
+      events: WEBHOOK_EVENTS,
+      config: { url: webhook.url, content_type: "json", secret: webhook.secret },
+    });
+  } catch (err) {
+    logger.warn(`Failed to add webhook to ${owner}/${repo}`, err);
+  }
+}
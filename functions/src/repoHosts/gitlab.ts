@@ -0,0 +1,169 @@
+import axios from "axios";
+import * as logger from "firebase-functions/logger";
+import { cloneBranchWithGit, gitAuthorFromEnv, pushFilesWithGit } from "./gitPush.js";
+import {
+  AccessGrant,
+  AccessState,
+  CreateRepoOptions,
+  LockMode,
+  LockRepoOptions,
+  PushBranchOptions,
+  RepoHost,
+  RepoHostError,
+  RepoLinks,
+  RepoRef
+} from "./types.js";
+
+// GitLab "Developer" role: can push to unprotected branches of this project only.
+const DEVELOPER_ACCESS = 30;
+
+export interface GitLabHostOptions {
+  token: string;
+  // Self-managed instances set this; defaults to gitlab.com
+  baseUrl?: string;
+  // Group/namespace to create projects in; defaults to the token owner's namespace
+  namespaceId?: number;
+  lockMode?: LockMode;
+}
+
+export function createGitLabHost(options: GitLabHostOptions): RepoHost {
+  const baseUrl = (options.baseUrl || "https://gitlab.com").replace(/\/+$/, "");
+  const api = axios.create({
+    baseURL: `${baseUrl}/api/v4`,
+    headers: { "PRIVATE-TOKEN": options.token },
+    timeout: 30000,
+  });
+
+  async function lookupUserId(username: string): Promise<number> {
+    const { data } = await api.get("/users", { params: { username } });
+    if (!Array.isArray(data) || !data.length) {
+      throw new RepoHostError(`GitLab user ${username} not found.`, "gitlab", "USER_NOT_FOUND");
+    }
+    return data[0].id;
+  }
+
+  return {
+    name: "gitlab",
+
+    async createRepo({ name, description, private: isPrivate }: CreateRepoOptions): Promise<RepoRef> {
+      logger.info(`Creating GitLab project ${name}...`);
+      try {
+        const { data } = await api.post("/projects", {
+          name,
+          path: name,
+          description,
+          visibility: isPrivate ? "private" : "public",
+          initialize_with_readme: true,
+          ...(options.namespaceId ? { namespace_id: options.namespaceId } : {}),
+        });
+        logger.info(`Project created: ${data.web_url}`);
+        return {
+          host: "gitlab",
+          owner: data.namespace?.full_path || data.namespace?.path,
+          name: data.path,
+          fullName: data.path_with_namespace,
+          webUrl: data.web_url,
+          defaultBranch: data.default_branch || "main",
+        };
+      } catch (err) {
+        const message = axios.isAxiosError(err) ? JSON.stringify(err.response?.data?.message || err.message) : String(err);
+        throw new RepoHostError(`GitLab project creation failed: ${message}`, "gitlab");
+      }
+    },
+
+    async pushBranch(repo: RepoRef, { branch, files, message }: PushBranchOptions) {
+      const host = new URL(baseUrl).host;
+      return pushFilesWithGit({
+        remoteUrl: `https://oauth2:${options.token}@${host}/${repo.fullName}.git`,
+        branch,
+        files,
+        message,
+        author: gitAuthorFromEnv("automation-bot"),
+      });
+    },
+
+    async fetchBranch(repo: RepoRef, branch: string, dir: string) {
+      const host = new URL(baseUrl).host;
+      return cloneBranchWithGit({
+        remoteUrl: `https://oauth2:${options.token}@${host}/${repo.fullName}.git`,
+        publicUrl: `${repo.webUrl}.git`,
+        branch,
+        dir,
+      });
+    },
+
+    links(repo: RepoRef, branch: string): RepoLinks {
+      return {
+        repoUrl: repo.webUrl,
+        branchUrl: `${repo.webUrl}/-/tree/${branch}`,
+        ideUrl: `${baseUrl}/-/ide/project/${repo.fullName}/edit/${branch}/-/`,
+        cloneUrl: `${repo.webUrl}.git`,
+      };
+    },
+
+    // GitLab adds existing users directly as members, so access is active immediately.
+    async grantAccess(repo: RepoRef, username: string): Promise<AccessGrant> {
+      const userId = await lookupUserId(username);
+      await api.post(`/projects/${encodeURIComponent(repo.fullName)}/members`, {
+        user_id: userId,
+        access_level: DEVELOPER_ACCESS,
+      });
+      return { state: "active" };
+    },
+
+    async accessState(repo: RepoRef, username: string): Promise<AccessState> {
+      const userId = await lookupUserId(username);
+      try {
+        await api.get(`/projects/${encodeURIComponent(repo.fullName)}/members/${userId}`);
+        return "active";
+      } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 404) return "revoked";
+        throw err;
+      }
+    },
+
+    async revokeAccess(repo: RepoRef, username: string): Promise<void> {
+      const userId = await lookupUserId(username);
+      try {
+        await api.delete(`/projects/${encodeURIComponent(repo.fullName)}/members/${userId}`);
+      } catch (err) {
+        if (!(axios.isAxiosError(err) && err.response?.status === 404)) throw err;
+      }
+    },
+
+    async lockRepo(repo: RepoRef, { branch, tag }: LockRepoOptions) {
+      const project = `/projects/${encodeURIComponent(repo.fullName)}`;
+      const { data: head } = await api.get(`${project}/repository/branches/${encodeURIComponent(branch)}`);
+      const commitSha: string = head.commit.id;
+      try {
+        await api.post(`${project}/repository/tags`, { tag_name: tag, ref: commitSha });
+      } catch (err) {
+        // 400: the tag exists from an earlier, interrupted run
+        if (!(axios.isAxiosError(err) && err.response?.status === 400)) throw err;
+      }
+      if (options.lockMode === "protect") {
+        // Protected with "No one" allowed to push or merge
+        await api.post(`${project}/protected_branches`, { name: branch, push_access_level: 0, merge_access_level: 0 });
+      } else {
+        await api.post(`${project}/archive`);
+      }
+      return { commitSha, tag };
+    },
+
+    async deleteRepo(repo: RepoRef) {
+      try {
+        await api.delete(`/projects/${encodeURIComponent(repo.fullName)}`);
+      } catch (err) {
+        if (!(axios.isAxiosError(err) && err.response?.status === 404)) throw err;
+      }
+    },
+
+    async archiveRepo(repo: RepoRef) {
+      try {
+        await api.post(`/projects/${encodeURIComponent(repo.fullName)}/archive`);
+      } catch (err) {
+        if (!(axios.isAxiosError(err) && err.response?.status === 404)) throw err;
+      }
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import os from "os";
+import { join } from "path";
+import { createGitHubHost } from "./github.js";
+import { createGitLabHost } from "./gitlab.js";
+import { createLocalHost } from "./local.js";
+import type { LockMode, RepoHost, RollbackMode } from "./types.js";
+
+export * from "./types.js";
+export { challengeRepoName, firstLineLabel } from "./naming.js";
+
+export type RepoHostName = "github" | "gitlab" | "local";
+
+export interface RepoHostConfig {
+  host: RepoHostName;
+  // Challenge repos are private unless REPO_VISIBILITY=public
+  private: boolean;
+  // How repos are locked when a deadline passes: archive (default) or protect the branch
+  lockMode: LockMode;
+  // What happens to a repo whose generation fails after it was created: delete (default) or archive
+  rollbackMode: RollbackMode;
+  githubOrg?: string;
+  githubTemplates: Record<string, string>;
+  githubWebhookUrl?: string;
+  gitlabUrl?: string;
+  gitlabNamespaceId?: number;
+  localRoot: string;
+}
+
+export interface RepoHostCredentials {
+  githubToken: () => string;
+  githubUsername: () => string;
+  githubWebhookSecret: () => string;
+  gitlabToken: () => string;
+}
+
+/**
+ * Reads host selection from the environment:
+ * REPO_HOST (github | gitlab | local, default github), REPO_VISIBILITY (private | public, default private),
+ * REPO_LOCK_MODE (archive | protect, default archive), REPO_ROLLBACK_MODE (delete | archive, default delete),
+ * GITHUB_ORG, GITHUB_TEMPLATE_REPOS ("default=org/template,python=org/python-template"), GITHUB_WEBHOOK_URL,
+ * GITLAB_URL, GITLAB_NAMESPACE_ID and LOCAL_REPO_ROOT (defaults to a directory under the OS temp dir).
+ */
+export function repoHostConfigFromEnv(env: NodeJS.ProcessEnv = process.env): RepoHostConfig {
+  const host = (env.REPO_HOST || "github").toLowerCase();
+  if (host !== "github" && host !== "gitlab" && host !== "local") {
+    throw new Error(`Unknown REPO_HOST "${env.REPO_HOST}". Use github, gitlab or local.`);
+  }
+  const visibility = (env.REPO_VISIBILITY || "private").toLowerCase();
+  if (visibility !== "private" && visibility !== "public") {
+    throw new Error(`Unknown REPO_VISIBILITY "${env.REPO_VISIBILITY}". Use private or public.`);
+  }
+  const lockMode = (env.REPO_LOCK_MODE || "archive").toLowerCase();
+  if (lockMode !== "archive" && lockMode !== "protect") {
+    throw new Error(`Unknown REPO_LOCK_MODE "${env.REPO_LOCK_MODE}". Use archive or protect.`);
+  }
+  const rollbackMode = (env.REPO_ROLLBACK_MODE || "delete").toLowerCase();
+  if (rollbackMode !== "delete" && rollbackMode !== "archive") {
+    throw new Error(`Unknown REPO_ROLLBACK_MODE "${env.REPO_ROLLBACK_MODE}". Use delete or archive.`);
+  }
+  return {
+    host,
+    private: visibility === "private",
+    lockMode,
+    rollbackMode,
+    githubOrg: env.GITHUB_ORG || undefined,
+    githubTemplates: parseTemplateMap(env.GITHUB_TEMPLATE_REPOS || ""),
+    githubWebhookUrl: env.GITHUB_WEBHOOK_URL || undefined,
+    gitlabUrl: env.GITLAB_URL || undefined,
+    gitlabNamespaceId: env.GITLAB_NAMESPACE_ID ? Number(env.GITLAB_NAMESPACE_ID) : undefined,
+    localRoot: env.LOCAL_REPO_ROOT || join(os.tmpdir(), "challenge-repos"),
+  };
+}
+
+/** Builds the configured host. Credentials are read lazily so the local host never needs any. */
+export function createRepoHost(config: RepoHostConfig, credentials: RepoHostCredentials): RepoHost {
+  switch (config.host) {
+    case "local":
+      return createLocalHost({ root: config.localRoot });
+    case "gitlab":
+      return createGitLabHost({
+        token: credentials.gitlabToken(),
+        baseUrl: config.gitlabUrl,
+        namespaceId: config.gitlabNamespaceId,
+        lockMode: config.lockMode,
+      });
+    case "github":
+      return createGitHubHost({
+        token: credentials.githubToken(),
+        username: credentials.githubUsername(),
+        org: config.githubOrg,
+        templates: config.githubTemplates,
+        lockMode: config.lockMode,
+        webhook: config.githubWebhookUrl
+          ? { url: config.githubWebhookUrl, secret: credentials.githubWebhookSecret() }
+          : undefined,
+      });
+  }
+}
+
+// "default=org/template, python=org/python-template" -> { default: "org/template", python: "org/python-template" }
+function parseTemplateMap(value: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [key, ref] = entry.includes("=") ? entry.split("=", 2) : ["default", entry];
+    if (!/^[\w.-]+\/[\w.-]+$/.test(ref.trim())) {
+      throw new Error(`Invalid GITHUB_TEMPLATE_REPOS entry "${entry}". Expected stack=owner/repo.`);
+    }
+    map[key.trim().toLowerCase()] = ref.trim();
+  }
+  return map;
+}
@@ -0,0 +1,99 @@
+import { chmodSync, existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { pathToFileURL } from "url";
+import simpleGit from "simple-git";
+import * as logger from "firebase-functions/logger";
+import { cloneBranchWithGit, gitAuthorFromEnv, pushFilesWithGit } from "./gitPush.js";
+import {
+  CreateRepoOptions,
+  LockRepoOptions,
+  PushBranchOptions,
+  RepoHost,
+  RepoHostError,
+  RepoLinks,
+  RepoRef
+} from "./types.js";
+
+export interface LocalHostOptions {
+  // Directory that holds one bare repository per challenge
+  root: string;
+}
+
+// Bare repositories on the local filesystem, so the whole flow runs in CI or the emulator
+// without any outside service. Links are file:// URLs.
+export function createLocalHost(options: LocalHostOptions): RepoHost {
+  const root = resolve(options.root);
+  const repoPath = (name: string) => join(root, `${name}.git`);
+  const rejectPushes = (path: string) => {
+    const hook = join(path, "hooks", "pre-receive");
+    writeFileSync(hook, "#!/bin/sh\necho 'This challenge repository is locked.' >&2\nexit 1\n");
+    chmodSync(hook, 0o755);
+  };
+
+  return {
+    name: "local",
+
+    async createRepo({ name, description }: CreateRepoOptions): Promise<RepoRef> {
+      const path = repoPath(name);
+      if (existsSync(path)) {
+        throw new RepoHostError(`Local repository already exists: ${path}`, "local", "REPO_EXISTS");
+      }
+      mkdirSync(path, { recursive: true });
+      const git = simpleGit(path);
+      await git.init(true, ["--initial-branch=main"]);
+      await git.raw(["config", "gitweb.description", description]);
+      logger.info(`Local bare repository created: ${path}`);
+      return {
+        host: "local",
+        owner: "local",
+        name,
+        fullName: name,
+        webUrl: pathToFileURL(path).href,
+        defaultBranch: "main",
+      };
+    },
+
+    async pushBranch(repo: RepoRef, { branch, files, message }: PushBranchOptions) {
+      return pushFilesWithGit({
+        remoteUrl: repoPath(repo.name),
+        branch,
+        files,
+        message,
+        author: gitAuthorFromEnv("automation-bot"),
+      });
+    },
+
+    async fetchBranch(repo: RepoRef, branch: string, dir: string) {
+      return cloneBranchWithGit({ remoteUrl: repoPath(repo.name), publicUrl: repoPath(repo.name), branch, dir });
+    },
+
+    links(repo: RepoRef, branch: string): RepoLinks {
+      const url = pathToFileURL(repoPath(repo.name)).href;
+      return {
+        repoUrl: url,
+        branchUrl: `${url}#${branch}`,
+        ideUrl: url,
+        cloneUrl: repoPath(repo.name),
+      };
+    },
+
+    // A pre-receive hook that rejects everything stands in for archiving.
+    async lockRepo(repo: RepoRef, { branch, tag }: LockRepoOptions) {
+      const path = repoPath(repo.name);
+      const git = simpleGit(path);
+      const commitSha = (await git.revparse([branch])).trim();
+      await git.raw(["tag", "-f", tag, commitSha]);
+      rejectPushes(path);
+      return { commitSha, tag };
+    },
+
+    async deleteRepo(repo: RepoRef) {
+      rmSync(repoPath(repo.name), { recursive: true, force: true });
+    },
+
+    async archiveRepo(repo: RepoRef) {
+      const path = repoPath(repo.name);
+      if (existsSync(path)) rejectPushes(path);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+// Human-readable challenge repo names, e.g. "jane-doe-fullstack-engineer-challenge-lq3k9x".
+// The base36 timestamp suffix keeps names unique when the same candidate and role repeat.
+
+const MAX_NAME_LENGTH = 90; // GitHub allows 100; leave room for the suffix
+
+export function slugify(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function challengeRepoName(parts: { candidate?: string; role?: string }, now = Date.now()): string {
+  const base = [parts.candidate, parts.role]
+    .map((part) => slugify(part || "").split("-").slice(0, 5).join("-"))
+    .filter(Boolean)
+    .join("-");
+  const name = `${base ? `${base}-` : ""}challenge`.slice(0, MAX_NAME_LENGTH).replace(/-+$/, "");
+  return `${name}-${now.toString(36)}`;
+}
+
+/**
+ * Best-effort label from a document's first line: resumes usually open with the candidate's name
+ * and job descriptions with the role title. Long lines are cut at the first punctuation.
+ */
+export function firstLineLabel(text: string): string | undefined {
+  const line = text.split("\n").map((l) => l.trim()).find(Boolean);
+  if (!line) return undefined;
+  const label = line.split(/[(|,:;\u2013\u2014]/)[0].trim();
+  return label.length > 0 && label.length <= 60 ? label : undefined;
+}
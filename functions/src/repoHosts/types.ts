@@ -0,0 +1,91 @@
+// Where challenge repositories live. The pipeline only talks to a RepoHost, so GitHub, GitLab
+// and a local bare-repo directory (for CI and the emulator) are interchangeable.
+
+export interface RepoFile {
+  path: string;
+  content: string;
+}
+
+export interface RepoRef {
+  host: string;
+  owner: string;
+  name: string;
+  // owner/name on GitHub, the namespaced project path on GitLab, the directory name locally
+  fullName: string;
+  webUrl: string;
+  defaultBranch: string;
+}
+
+export interface RepoLinks {
+  repoUrl: string;
+  branchUrl: string;
+  // Browser IDE (vscode.dev, GitLab Web IDE) or a file URL for local repos
+  ideUrl: string;
+  cloneUrl: string;
+}
+
+export interface CreateRepoOptions {
+  name: string;
+  description: string;
+  private: boolean;
+  // Primary language/runtime of the scaffold (node, python, ...); hosts use it to pick a template
+  stack?: string;
+}
+
+export interface PushBranchOptions {
+  branch: string;
+  files: RepoFile[];
+  message: string;
+}
+
+export interface LockRepoOptions {
+  // Branch whose head is tagged as the final submission
+  branch: string;
+  tag: string;
+}
+
+// "archive" makes the whole repo read-only; "protect" only locks the branch so the repo stays active.
+export type LockMode = "archive" | "protect";
+
+// How a half-created challenge repo is rolled back: "delete" (default) or "archive" when the
+// token lacks delete rights or the repo should be kept for inspection.
+export type RollbackMode = "delete" | "archive";
+
+// Candidate access to a (private) challenge repo: "pending" until the candidate accepts the invitation.
+export type AccessState = "pending" | "active" | "revoked";
+
+export interface AccessGrant {
+  state: AccessState;
+  invitationId?: number;
+}
+
+export interface RepoHost {
+  readonly name: string;
+  createRepo(options: CreateRepoOptions): Promise<RepoRef>;
+  // Commits all files in a single commit on a new branch and pushes it.
+  pushBranch(repo: RepoRef, options: PushBranchOptions): Promise<{ commitSha: string }>;
+  links(repo: RepoRef, branch: string): RepoLinks;
+  // Clones the repo into an empty directory with `branch` checked out, for evaluating submissions.
+  fetchBranch(repo: RepoRef, branch: string, dir: string): Promise<{ headSha: string }>;
+  // Collaborator management; hosts without user accounts (local) leave these out.
+  grantAccess?(repo: RepoRef, username: string): Promise<AccessGrant>;
+  accessState?(repo: RepoRef, username: string, grant: AccessGrant): Promise<AccessState>;
+  revokeAccess?(repo: RepoRef, username: string, grant: AccessGrant): Promise<void>;
+  // Tags the branch head and makes the repo read-only once the candidate's deadline passes.
+  lockRepo?(repo: RepoRef, options: LockRepoOptions): Promise<{ commitSha: string; tag: string }>;
+  // Rollback of a repo whose generation failed after it was created. Both succeed when the repo
+  // is already gone.
+  deleteRepo?(repo: RepoRef): Promise<void>;
+  archiveRepo?(repo: RepoRef): Promise<void>;
+}
+
+export class RepoHostError extends Error {
+  constructor(
+    message: string,
+    public readonly host: string,
+    public readonly code: string = "REPO_HOST_ERROR"
+  ) {
+    super(message);
+    this.name = "RepoHostError";
+  }
+}
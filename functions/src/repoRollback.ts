@@ -0,0 +1,122 @@
+import { DocumentReference, FieldValue, Timestamp } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { CHALLENGES_COLLECTION } from "./challenges.js";
+import { db } from "./firebaseAdmin.js";
+import { GENERATION_JOBS_COLLECTION, JobRepoState, JobStage } from "./jobs.js";
+import type { RepoHost, RepoRef, RollbackMode } from "./repoHosts/index.js";
+
+// Compensation for generation jobs that fail after their repo was created. The worker rolls the
+// repo back as soon as a later step fails; sweepOrphanedRepos catches repos whose worker died
+// before it could (timeouts, crashes) and rollbacks that failed, using the job document as the
+// record of what was created.
+
+// Well past the worker's 540s timeout, so a job that is still running is never swept.
+export const ORPHAN_GRACE_MS = 30 * 60 * 1000;
+const SWEEP_BATCH = 50;
+
+export interface RollbackResult {
+  state: Extract<JobRepoState, "deleted" | "archived" | "rollbackFailed">;
+  error: string | null;
+}
+
+/**
+ * Deletes or archives the repo. A failed delete (usually a token without delete rights) falls
+ * back to archiving, so the repo at least becomes read-only. Never throws.
+ */
+export async function rollbackRepo(host: RepoHost, repo: RepoRef, mode: RollbackMode): Promise<RollbackResult> {
+  const actions: RollbackMode[] = mode === "delete" ? ["delete", "archive"] : ["archive"];
+  let error = `The ${host.name} repo host cannot delete or archive repositories.`;
+  for (const action of actions) {
+    const run = action === "delete" ? host.deleteRepo : host.archiveRepo;
+    if (!run) continue;
+    try {
+      await run.call(host, repo);
+      logger.info(`Rolled back ${repo.fullName}: ${action}d`);
+      return { state: action === "delete" ? "deleted" : "archived", error: null };
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      logger.warn(`Failed to ${action} ${repo.fullName}`, err);
+    }
+  }
+  return { state: "rollbackFailed", error };
+}
+
+/** Rolls back the repo a job created and records the outcome on the job document. */
+export async function rollbackJobRepo(
+  ref: DocumentReference,
+  host: RepoHost,
+  repo: RepoRef,
+  mode: RollbackMode
+): Promise<RollbackResult> {
+  const result = await rollbackRepo(host, repo, mode);
+  await ref.update({
+    repoState: result.state,
+    "repoRollback.error": result.error,
+    "repoRollback.attempts": FieldValue.increment(1),
+    "repoRollback.at": FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return result;
+}
+
+/**
+ * Finds jobs that created a repo but never linked it to a challenge (or failed to roll it back)
+ * and rolls those repos back. Jobs the worker abandoned mid-run are marked failed as well. Only
+ * repos on the configured host are touched.
+ */
+export async function sweepOrphanedRepos(
+  host: RepoHost,
+  mode: RollbackMode,
+  now = Date.now()
+): Promise<{ checked: number; rolledBack: number; failed: number }> {
+  const snap = await db
+    .collection(GENERATION_JOBS_COLLECTION)
+    .where("repoState", "in", ["created", "rollbackFailed"])
+    .where("updatedAt", "<=", Timestamp.fromMillis(now - ORPHAN_GRACE_MS))
+    .limit(SWEEP_BATCH)
+    .get();
+
+  let checked = 0;
+  let rolledBack = 0;
+  let failed = 0;
+  for (const doc of snap.docs) {
+    const repo = doc.get("repo") as RepoRef | null;
+    if (!repo || repo.host !== host.name) continue;
+    checked++;
+    try {
+      // The worker can die after saving the challenge but before marking the repo linked.
+      const owner = await db
+        .collection(CHALLENGES_COLLECTION)
+        .where("repoHost", "==", repo.host)
+        .where("repoFullName", "==", repo.fullName)
+        .limit(1)
+        .get();
+      if (!owner.empty) {
+        await doc.ref.update({ repoState: "linked", updatedAt: FieldValue.serverTimestamp() });
+        continue;
+      }
+
+      const result = await rollbackJobRepo(doc.ref, host, repo, mode);
+      if (result.state === "rollbackFailed") {
+        failed++;
+      } else {
+        rolledBack++;
+      }
+      if (doc.get("status") === "running") {
+        await doc.ref.update({
+          status: "failed",
+          error: {
+            stage: (doc.get("currentStage") as JobStage | null) ?? null,
+            message: "Generation stopped before it finished. Please try again.",
+            code: "JOB_ABANDONED",
+          },
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+    } catch (err) {
+      failed++;
+      logger.error(`Failed to sweep the repo of job ${doc.id}`, err);
+    }
+  }
+  return { checked, rolledBack, failed };
+}
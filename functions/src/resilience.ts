@@ -0,0 +1,203 @@
+import * as logger from "firebase-functions/logger";
+
+// Retries for calls to outside services (the model API, GitHub, git remotes): exponential backoff
+// with jitter, server-requested waits (Retry-After, rate limit resets), a total time budget per
+// call, and a circuit breaker per dependency so a service that is down fails fast instead of
+// soaking up every job's budget. Breakers live in module scope, so they are shared by the
+// invocations a warm instance serves.
+
+export interface RetryPolicy {
+  // Attempts including the first
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Time across all attempts and waits; no retry starts that would end its wait at or past it
+  budgetMs: number;
+}
+
+// Model calls are slow and expensive, so fewer, longer waits; GitHub API calls are quick.
+export const RETRY_POLICIES = {
+  llm: { maxAttempts: 4, baseDelayMs: 2000, maxDelayMs: 30_000, budgetMs: 240_000 },
+  github: { maxAttempts: 5, baseDelayMs: 500, maxDelayMs: 15_000, budgetMs: 60_000 },
+  git: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10_000, budgetMs: 120_000 },
+} satisfies Record<string, RetryPolicy>;
+
+export interface RetryDecision {
+  retry: boolean;
+  // Wait the server asked for; used instead of the backoff when it is longer
+  retryAfterMs?: number;
+}
+
+export interface BreakerOptions {
+  // Consecutive transient failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before letting one trial call through
+  cooldownMs: number;
+}
+
+const DEFAULT_BREAKER: BreakerOptions = { failureThreshold: 5, cooldownMs: 30_000 };
+
+export class CircuitOpenError extends Error {
+  readonly code = "CIRCUIT_OPEN";
+
+  constructor(public readonly dependency: string, public readonly retryAfterMs: number) {
+    super(`${dependency} is failing repeatedly; calls are paused for ${Math.ceil(retryAfterMs / 1000)}s. Try again shortly.`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(public readonly dependency: string, private readonly options: BreakerOptions = DEFAULT_BREAKER) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? "halfOpen" : "open";
+  }
+
+  /** Throws CircuitOpenError while open. Once the cooldown has passed, lets one trial call through. */
+  acquire(): void {
+    const state = this.state;
+    if (state === "closed") return;
+    if (state === "halfOpen" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    const waited = Date.now() - (this.openedAt ?? 0);
+    throw new CircuitOpenError(this.dependency, Math.max(this.options.cooldownMs - waited, 1000));
+  }
+
+  /** The dependency answered, even if with an error that was the caller's fault. */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    // A failed trial call reopens the circuit straight away.
+    if (this.trialInFlight || this.failures >= this.options.failureThreshold) {
+      logger.warn(`Circuit for ${this.dependency} opened after ${this.failures} consecutive failures`);
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/** The shared breaker for a dependency, created on first use. */
+export function circuitBreaker(dependency: string, options: BreakerOptions = DEFAULT_BREAKER): CircuitBreaker {
+  let breaker = breakers.get(dependency);
+  if (!breaker) {
+    breaker = new CircuitBreaker(dependency, options);
+    breakers.set(dependency, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the capped exponential delay plus a random part
+ * of the other half, so concurrent jobs spread out without ever retrying immediately.
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number, random = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(exponential / 2 + random() * (exponential / 2));
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  // Budget left for this attempt; callers cap their request timeout at it, since a single slow
+  // attempt could otherwise run past the budget (and the function's own timeout) on its own.
+  remainingMs: number;
+}
+
+export interface RetryOptions {
+  policy: RetryPolicy;
+  classify: (error: unknown) => RetryDecision;
+  breaker?: CircuitBreaker;
+}
+
+/**
+ * Runs `work` until it succeeds, fails with an error `classify` says is permanent, runs out of
+ * attempts or would overrun the time budget; the last error is rethrown as is. Transient failures
+ * count towards the breaker, and an open breaker stops the retries with CircuitOpenError.
+ */
+export async function withRetry<T>(dependency: string, work: (attempt: RetryAttempt) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { policy, classify, breaker } = options;
+  const started = Date.now();
+  for (let attempt = 1; ; attempt++) {
+    breaker?.acquire();
+    try {
+      // At least 1ms: a timeout of 0 means no timeout to axios.
+      const value = await work({ attempt, remainingMs: Math.max(1, policy.budgetMs - (Date.now() - started)) });
+      breaker?.recordSuccess();
+      return value;
+    } catch (err) {
+      const decision = classify(err);
+      if (!decision.retry) {
+        breaker?.recordSuccess();
+        throw err;
+      }
+      breaker?.recordFailure();
+      const delay = backoffDelay(policy, attempt, decision.retryAfterMs);
+      if (attempt >= policy.maxAttempts || Date.now() - started + delay >= policy.budgetMs) throw err;
+      logger.warn(`${dependency} call failed (attempt ${attempt}/${policy.maxAttempts}); retrying in ${delay}ms`, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export interface HttpFailure {
+  // Undefined when no response arrived (network error or timeout)
+  status?: number;
+  headers?: Record<string, unknown>;
+  // Whether repeating the request is harmless even if the first one reached the server
+  idempotent: boolean;
+}
+
+/**
+ * Rate limits are always retried: the server refused the request, so repeating it cannot do
+ * anything twice. Timeouts, 5xx and network errors are only retried for idempotent requests.
+ * GitHub signals rate limits with 403 plus Retry-After or an exhausted x-ratelimit-remaining.
+ */
+export function httpRetryDecision(failure: HttpFailure, now = Date.now()): RetryDecision {
+  const header = (name: string) => {
+    const value = failure.headers?.[name];
+    return value === undefined || value === null ? undefined : String(value);
+  };
+  const retryAfterMs = parseRetryAfter(header("retry-after"), now);
+  const { status } = failure;
+  // GitHub sends x-ratelimit-reset on every response; it only says how long to wait on a rate limit.
+  const rateLimited = { retry: true, retryAfterMs: retryAfterMs ?? rateLimitResetMs(header("x-ratelimit-reset"), now) };
+  if (status === 429) return rateLimited;
+  if (status === 403 && (retryAfterMs !== undefined || header("x-ratelimit-remaining") === "0")) return rateLimited;
+  if (status === undefined || status === 408 || status === 500 || status === 502 || status === 503 || status === 504) {
+    return { retry: failure.idempotent, retryAfterMs };
+  }
+  return { retry: false };
+}
+
+/** Retry-After as seconds or an HTTP date, in milliseconds from now. */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// x-ratelimit-reset is the epoch second the quota refills.
+function rateLimitResetMs(value: string | undefined, now: number): number | undefined {
+  const epochSeconds = Number(value);
+  return value && Number.isFinite(epochSeconds) ? Math.max(0, epochSeconds * 1000 - now) : undefined;
+}
@@ -0,0 +1,62 @@
+import type { Response } from "express";
+import { FieldValue } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type { AuthenticatedUser } from "./auth.js";
+import { adminAuth, db } from "./firebaseAdmin.js";
+
+// Roles are Firebase custom claims ({ role: "admin" | "interviewer" | "candidate" }) so both
+// firestore.rules and the functions can check them from the ID token without a lookup.
+// `users/{uid}` mirrors each assignment so admins can list who has which role.
+export const ROLES = ["admin", "interviewer", "candidate"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const USERS_COLLECTION = "users";
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Responds 403 and returns false unless the user holds one of the roles.
+ * Admins pass every check.
+ */
+export function requireRole(user: AuthenticatedUser, res: Response, ...roles: Role[]): boolean {
+  if (user.role === "admin" || (user.role && roles.includes(user.role))) return true;
+  res.status(403).json({
+    error: user.role
+      ? `This action needs the ${roles.join(" or ")} role; you are signed in as ${user.role}.`
+      : "Your account has no role yet. Ask an admin to grant you access.",
+    code: "FORBIDDEN"
+  });
+  return false;
+}
+
+/** Emails in BOOTSTRAP_ADMIN_EMAILS may grant roles (including to themselves) before any admin exists. */
+export function isBootstrapAdmin(user: AuthenticatedUser, env: NodeJS.ProcessEnv = process.env): boolean {
+  if (!user.email || !user.token.email_verified) return false;
+  const emails = (env.BOOTSTRAP_ADMIN_EMAILS || "").split(",").map((e) => e.trim().toLowerCase()).filter(Boolean);
+  return emails.includes(user.email.toLowerCase());
+}
+
+/**
+ * Sets (or with null, clears) the role claim and mirrors it in `users/{uid}`. The user sees the
+ * new role once their ID token refreshes; the client forces a refresh after changing its own role.
+ */
+export async function assignRole(targetEmail: string, role: Role | null, assignedBy: string): Promise<{ uid: string; email: string }> {
+  const target = await adminAuth.getUserByEmail(targetEmail);
+  const claims = { ...(target.customClaims || {}) };
+  if (role) claims.role = role;
+  else delete claims.role;
+  await adminAuth.setCustomUserClaims(target.uid, claims);
+  await db.collection(USERS_COLLECTION).doc(target.uid).set(
+    {
+      email: target.email ?? targetEmail,
+      role,
+      assignedBy,
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+  logger.info(`Role for ${target.uid} set to ${role ?? "none"} by ${assignedBy}`);
+  return { uid: target.uid, email: target.email ?? targetEmail };
+}
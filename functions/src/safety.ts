@@ -0,0 +1,161 @@
+import type { ChallengeManifest } from "./manifest.js";
+import type { ChallengeSpec } from "./spec.js";
+
+// Guards around the model. Resumes and job descriptions are untrusted: they are wrapped in tags
+// the prompt tells the model to treat as data, stripped of anything that could close those tags,
+// and scanned for instruction-like content before generation. The generated challenge is scanned
+// for leaked answer-key details and credentials before anything is pushed. SAFETY_MODE decides
+// what a finding does: `enforce` (default) rejects, `flag` records it and carries on, `off` skips
+// the scans (delimiting always applies).
+
+export type SafetyMode = "enforce" | "flag" | "off";
+
+export type SafetyReason =
+  | "INSTRUCTION_OVERRIDE"
+  | "ROLE_HIJACK"
+  | "PROMPT_EXFILTRATION"
+  | "ANSWER_EXFILTRATION"
+  | "DELIMITER_SPOOFING"
+  | "HIDDEN_TEXT"
+  | "BUG_LEAK"
+  | "SECRET_LEAK";
+
+export type SafetySource = "resume" | "jobDescription" | "output";
+
+export interface SafetyFinding {
+  reason: SafetyReason;
+  source: SafetySource;
+  // Short excerpt or location; never the full document
+  detail: string;
+}
+
+export class SafetyError extends Error {
+  constructor(message: string, public readonly code: "UNSAFE_INPUT" | "UNSAFE_OUTPUT", public readonly findings: SafetyFinding[]) {
+    super(message);
+    this.name = "SafetyError";
+  }
+}
+
+export function safetyModeFromEnv(env: NodeJS.ProcessEnv = process.env): SafetyMode {
+  const mode = (env.SAFETY_MODE || "enforce").toLowerCase();
+  if (mode !== "enforce" && mode !== "flag" && mode !== "off") {
+    throw new Error(`Unknown SAFETY_MODE "${env.SAFETY_MODE}". Use enforce, flag or off.`);
+  }
+  return mode;
+}
+
+// Tags our prompts (and the mock provider) use to structure content. Untrusted text may not
+// contain them, or it could end the data block early or pose as trusted input.
+const RESERVED_TAGS = ["resume", "job_description", "rubric", "hidden_bugs", "scoring_notes", "test_results", "diff", "readme"];
+const RESERVED_TAG = new RegExp(`<\\s*/?\\s*(?:${RESERVED_TAGS.join("|")})\\b[^>]*>`, "gi");
+// Zero-width, bidi override and Unicode "tag" characters render as nothing but still reach the model.
+const INVISIBLE = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]|[\u{E0000}-\u{E007F}]/gu;
+const INVISIBLE_THRESHOLD = 5;
+
+/** Removes invisible characters and anything that looks like one of our prompt tags. */
+export function sanitizeUntrusted(text: string): string {
+  return text.replace(INVISIBLE, "").replace(RESERVED_TAG, (tag) => tag.replace(/</g, "‹").replace(/>/g, "›"));
+}
+
+const INPUT_PATTERNS: { reason: SafetyReason; pattern: RegExp }[] = [
+  {
+    reason: "INSTRUCTION_OVERRIDE",
+    pattern: /\b(?:ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|preceding|all|any|system|your)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules|directions|guidelines)\b/i,
+  },
+  { reason: "INSTRUCTION_OVERRIDE", pattern: /\b(?:new|updated|real|actual)\s+instructions?\s*:/i },
+  { reason: "ROLE_HIJACK", pattern: /\byou\s+are\s+(?:now|no\s+longer)\b/i },
+  { reason: "ROLE_HIJACK", pattern: /\b(?:act|behave|respond|pretend)\s+(?:as|like|to\s+be)\b[^.\n]{0,30}\b(?:unrestricted|jailbroken|different\s+(?:ai|assistant|model)|developer\s+mode|DAN)\b/i },
+  { reason: "ROLE_HIJACK", pattern: /^\s*(?:system|assistant)\s*(?:prompt)?\s*:/im },
+  {
+    reason: "PROMPT_EXFILTRATION",
+    pattern: /\b(?:reveal|print|repeat|show|output|leak|return)\b[^.\n]{0,30}\b(?:system\s+prompt|your\s+(?:instructions|prompt|rules)|the\s+prompt\s+above)\b/i,
+  },
+  {
+    reason: "ANSWER_EXFILTRATION",
+    // Answer-key terms plus somewhere the candidate would see them; "write solutions and review code" is a job ad.
+    pattern: /\b(?:put|include|write|add|reveal|list|mark|show|insert|disclose)\b[^.\n]{0,40}\b(?:hidden\s+bugs?|bug\s+locations?|answer\s+key|expected\s+fix(?:es)?|scoring\s+notes|rubric)\b[^.\n]{0,40}\b(?:in|into|inside|within)\s+(?:the\s+|a\s+|your\s+)?(?:readme|(?:code\s+)?comments?|starter\s+(?:files?|code)|repo(?:sitory)?)\b/i,
+  },
+  { reason: "ANSWER_EXFILTRATION", pattern: /\b(?:score|rate|grade|evaluate)\s+(?:this\s+candidate|me|the\s+candidate)\b[^.\n]{0,30}\b(?:100|full\s+marks|perfect|highest)\b/i },
+  { reason: "DELIMITER_SPOOFING", pattern: /<\|im_(?:start|end|sep)\|>|<\|(?:system|user|assistant|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>/i },
+];
+
+/** Scans extracted document text for content aimed at the model rather than the reader. */
+export function scanUntrustedInput(source: SafetySource, text: string): SafetyFinding[] {
+  const findings: SafetyFinding[] = [];
+  for (const { reason, pattern } of INPUT_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match && !findings.some((f) => f.reason === reason)) {
+      findings.push({ reason, source, detail: excerpt(match[0]) });
+    }
+  }
+  const tags = text.match(RESERVED_TAG);
+  if (tags && !findings.some((f) => f.reason === "DELIMITER_SPOOFING")) {
+    findings.push({ reason: "DELIMITER_SPOOFING", source, detail: excerpt(tags[0]) });
+  }
+  const invisible = text.match(INVISIBLE)?.length ?? 0;
+  if (invisible >= INVISIBLE_THRESHOLD) {
+    findings.push({ reason: "HIDDEN_TEXT", source, detail: `${invisible} invisible characters` });
+  }
+  return findings;
+}
+
+const SECRET_PATTERNS = [
+  /\bsk-(?:proj-|live-)?[A-Za-z0-9_-]{20,}/,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/,
+  /\bgithub_pat_[A-Za-z0-9_]{22,}/,
+  /\bglpat-[A-Za-z0-9_-]{20,}/,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/,
+];
+
+// Bug descriptions shorter than this are too generic to treat a verbatim match as a leak
+const MIN_LEAK_LENGTH = 24;
+
+/**
+ * Scans everything the candidate will see for answer-key text and credentials. `knownSecrets` are
+ * the configured API tokens, matched literally in case the model echoes one back.
+ */
+export function scanChallengeOutput(manifest: ChallengeManifest, spec: ChallengeSpec | null, knownSecrets: string[] = []): SafetyFinding[] {
+  const visible = [{ path: "README.md", content: manifest.readme }, ...manifest.files, ...manifest.tests];
+  const findings: SafetyFinding[] = [];
+
+  for (const bug of spec?.hiddenBugs ?? []) {
+    for (const text of [bug.description, bug.expectedFix]) {
+      const needle = normalize(text);
+      if (needle.length < MIN_LEAK_LENGTH) continue;
+      const file = visible.find((f) => normalize(f.content).includes(needle));
+      if (file) findings.push({ reason: "BUG_LEAK", source: "output", detail: `${file.path} repeats the answer key for ${bug.file}` });
+    }
+  }
+
+  const secrets = knownSecrets.filter((s) => s.length >= 8);
+  for (const file of visible) {
+    const leaked = SECRET_PATTERNS.some((p) => p.test(file.content)) || secrets.some((s) => file.content.includes(s));
+    if (leaked) findings.push({ reason: "SECRET_LEAK", source: "output", detail: `${file.path} contains what looks like a credential` });
+  }
+  return findings;
+}
+
+/**
+ * Applies the mode to a scan: throws SafetyError under `enforce`, otherwise returns the findings
+ * to record (always empty under `off`).
+ */
+export function applySafetyMode(mode: SafetyMode, findings: SafetyFinding[], code: SafetyError["code"]): SafetyFinding[] {
+  if (mode === "off" || !findings.length) return [];
+  if (mode === "enforce") {
+    const what = code === "UNSAFE_INPUT" ? "The uploaded documents contain" : "The generated challenge contains";
+    const reasons = [...new Set(findings.map((f) => `${f.reason} (${f.source})`))].join(", ");
+    throw new SafetyError(`${what} content that failed the safety checks: ${reasons}.`, code, findings);
+  }
+  return findings;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > 80 ? `${flat.slice(0, 77)}...` : flat;
+}
@@ -0,0 +1,272 @@
+import Ajv, { ErrorObject } from "ajv";
+import { ChallengeFile, ChallengeManifest, ManifestError, validateManifest } from "./manifest.js";
+
+// Structured challenge spec requested from the model. The JSON is validated against
+// CHALLENGE_SPEC_SCHEMA plus a few cross-field checks; the README is rendered from the
+// validated spec rather than trusted as free-form markdown. Hidden bugs, rubric details and
+// scoring notes only ever go into the interviewer's answer key (see answerKeys.ts).
+
+export const DIFFICULTIES = ["junior", "mid", "senior", "staff"] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export interface RubricCriterion {
+  criterion: string;
+  // Percentage of the overall score; weights across the rubric sum to 100
+  weight: number;
+  description: string;
+}
+
+export interface HiddenBug {
+  file: string;
+  // Function, line range or other pointer within the file
+  location: string;
+  description: string;
+  expectedFix: string;
+}
+
+export interface ChallengeSpec {
+  title: string;
+  role?: string;
+  candidateName?: string;
+  stack: string;
+  difficulty: Difficulty;
+  estimatedMinutes: number;
+  problemDescription: string;
+  requirements: string[];
+  technicalSpecifications: string[];
+  evaluationRubric: RubricCriterion[];
+  hiddenBugs: HiddenBug[];
+  submissionInstructions: string;
+  // Interviewer guidance on what separates a strong submission from a weak one
+  scoringNotes?: string[];
+  // Shell command that runs the scaffold's tests, e.g. "npm test"
+  testCommand?: string;
+  files: ChallengeFile[];
+  tests?: ChallengeFile[];
+}
+
+// What the challenge record keeps: the spec without file contents or anything from the answer key.
+export type ChallengeSpecSummary = Omit<
+  ChallengeSpec,
+  "files" | "tests" | "hiddenBugs" | "evaluationRubric" | "scoringNotes"
+>;
+
+export function specSummary(spec: ChallengeSpec): ChallengeSpecSummary {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { files, tests, hiddenBugs, evaluationRubric, scoringNotes, ...summary } = spec;
+  return summary;
+}
+
+const fileSchema = {
+  type: "object",
+  required: ["path", "content"],
+  additionalProperties: false,
+  properties: {
+    path: { type: "string", minLength: 1 },
+    content: { type: "string" },
+  },
+};
+
+const nonEmptyString = { type: "string", minLength: 1 };
+
+export const CHALLENGE_SPEC_SCHEMA = {
+  type: "object",
+  required: [
+    "title",
+    "stack",
+    "difficulty",
+    "estimatedMinutes",
+    "problemDescription",
+    "requirements",
+    "technicalSpecifications",
+    "evaluationRubric",
+    "hiddenBugs",
+    "submissionInstructions",
+    "files",
+  ],
+  additionalProperties: false,
+  properties: {
+    title: { type: "string", minLength: 3, maxLength: 120 },
+    role: { type: "string", maxLength: 100 },
+    candidateName: { type: "string", maxLength: 100 },
+    stack: { type: "string", minLength: 1, maxLength: 40 },
+    difficulty: { enum: DIFFICULTIES },
+    estimatedMinutes: { type: "integer", minimum: 15, maximum: 600 },
+    problemDescription: { type: "string", minLength: 20 },
+    requirements: { type: "array", minItems: 1, maxItems: 20, items: nonEmptyString },
+    technicalSpecifications: { type: "array", minItems: 1, maxItems: 20, items: nonEmptyString },
+    evaluationRubric: {
+      type: "array",
+      minItems: 2,
+      maxItems: 10,
+      items: {
+        type: "object",
+        required: ["criterion", "weight", "description"],
+        additionalProperties: false,
+        properties: {
+          criterion: nonEmptyString,
+          weight: { type: "number", exclusiveMinimum: 0, maximum: 100 },
+          description: nonEmptyString,
+        },
+      },
+    },
+    hiddenBugs: {
+      type: "array",
+      maxItems: 10,
+      items: {
+        type: "object",
+        required: ["file", "location", "description", "expectedFix"],
+        additionalProperties: false,
+        properties: {
+          file: nonEmptyString,
+          location: nonEmptyString,
+          description: nonEmptyString,
+          expectedFix: nonEmptyString,
+        },
+      },
+    },
+    submissionInstructions: { type: "string", minLength: 10 },
+    scoringNotes: { type: "array", maxItems: 20, items: nonEmptyString },
+    testCommand: { type: "string", maxLength: 200 },
+    files: { type: "array", minItems: 1, items: fileSchema },
+    tests: { type: "array", items: fileSchema },
+  },
+} as const;
+
+const ajv = new Ajv({ allErrors: true });
+const validateSchema = ajv.compile<ChallengeSpec>(CHALLENGE_SPEC_SCHEMA);
+
+export type SpecValidation =
+  | { ok: true; spec: ChallengeSpec; manifest: ChallengeManifest }
+  | { ok: false; errors: string[] };
+
+/**
+ * Parses and validates the model's JSON. On failure the returned errors are phrased so they
+ * can be sent straight back to the model in a correction request.
+ */
+export function validateChallengeSpec(raw: string): SpecValidation {
+  const json = raw.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n```$/, "$1");
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    return { ok: false, errors: [`Response is not valid JSON: ${(err as Error).message}`] };
+  }
+
+  if (!validateSchema(data)) {
+    return { ok: false, errors: (validateSchema.errors || []).map(formatSchemaError) };
+  }
+  const spec = data;
+
+  const errors: string[] = [];
+  const totalWeight = spec.evaluationRubric.reduce((sum, c) => sum + c.weight, 0);
+  if (Math.abs(totalWeight - 100) > 0.5) {
+    errors.push(`evaluationRubric weights must sum to 100 (got ${totalWeight}).`);
+  }
+  const paths = new Set([...spec.files, ...(spec.tests || [])].map((f) => f.path.replace(/^\.\//, "")));
+  for (const bug of spec.hiddenBugs) {
+    if (!paths.has(bug.file.replace(/^\.\//, ""))) {
+      errors.push(`hiddenBugs entry refers to "${bug.file}", which is not one of the files.`);
+    }
+  }
+
+  const readme = renderReadme(spec);
+  errors.push(...findBugHints(readme, [...spec.files, ...(spec.tests || [])]));
+
+  let manifest: ChallengeManifest | undefined;
+  try {
+    manifest = validateManifest({
+      readme,
+      files: spec.files,
+      tests: spec.tests || [],
+      role: spec.role,
+      candidateName: spec.candidateName,
+      stack: spec.stack,
+    });
+  } catch (err) {
+    if (!(err instanceof ManifestError)) throw err;
+    errors.push(err.message);
+  }
+
+  if (errors.length || !manifest) return { ok: false, errors };
+  return { ok: true, spec, manifest };
+}
+
+// Comments that point at planted bugs would hand the candidate the answer key.
+const COMMENT_LINE = /^\s*(?:\/\/|#|\/\*|\*|<!--|--)/;
+const BUG_COMMENT = /\b(?:bugs?|fixme|planted|seeded|intentional(?:ly)?)\b/i;
+const BUG_PHRASE = /\b(?:hidden|planted|seeded|intentional|deliberate)\s+(?:bugs?|errors?|defects?|mistakes?)\b/i;
+
+/** Flags candidate-visible text that gives away where the hidden bugs are. */
+function findBugHints(readme: string, files: ChallengeFile[]): string[] {
+  const hints: string[] = [];
+  if (BUG_PHRASE.test(readme)) {
+    hints.push("The README text mentions the hidden bugs; describe the task without referring to them.");
+  }
+  for (const file of files) {
+    file.content.split("\n").forEach((line, i) => {
+      if ((COMMENT_LINE.test(line) && BUG_COMMENT.test(line)) || BUG_PHRASE.test(line)) {
+        hints.push(`${file.path}:${i + 1} hints at a planted bug; remove the comment or reword it.`);
+      }
+    });
+  }
+  return hints;
+}
+
+function formatSchemaError(error: ErrorObject): string {
+  const at = error.instancePath ? error.instancePath.slice(1).replace(/\//g, ".") : "(root)";
+  if (error.keyword === "additionalProperties") {
+    return `${at}: unexpected property "${(error.params as { additionalProperty: string }).additionalProperty}".`;
+  }
+  if (error.keyword === "enum") {
+    return `${at}: must be one of ${(error.params as { allowedValues: unknown[] }).allowedValues.join(", ")}.`;
+  }
+  return `${at}: ${error.message}.`;
+}
+
+/** Renders the candidate-facing README from a validated spec. Hidden bugs are never included. */
+export function renderReadme(spec: ChallengeSpec): string {
+  const bullet = (items: string[]) => items.map((item) => `- ${item}`).join("\n");
+  const files = [...spec.files, ...(spec.tests || [])].map((f) => `- \`${f.path}\``).join("\n");
+
+  return `# ${spec.title}
+
+**Difficulty:** ${capitalize(spec.difficulty)} · **Estimated time:** ${formatMinutes(spec.estimatedMinutes)} · **Stack:** ${spec.stack}
+
+## Problem Description
+
+${spec.problemDescription.trim()}
+
+## Requirements
+
+${bullet(spec.requirements)}
+
+## Technical Specifications
+
+${bullet(spec.technicalSpecifications)}
+
+## Getting Started
+
+The repository contains the following starter files:
+
+${files}
+${spec.testCommand ? `\nRun the tests with \`${spec.testCommand}\`.\n` : ""}
+## Evaluation Criteria
+
+${bullet(spec.evaluationRubric.map((c) => c.criterion))}
+
+## Submission Instructions
+
+${spec.submissionInstructions.trim()}
+`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return Number.isInteger(hours) ? `${hours} hour${hours === 1 ? "" : "s"}` : `${hours.toFixed(1)} hours`;
+}
@@ -0,0 +1,203 @@
+import axios from "axios";
+import { spawn } from "child_process";
+import { existsSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { applicationDefault } from "firebase-admin/app";
+import * as logger from "firebase-functions/logger";
+import { uploadsBucket } from "./firebaseAdmin.js";
+
+// Runs a challenge's own test command against a candidate's checkout in an isolated Cloud Run job
+// (see testRunner/ at the repo root). Candidate code never executes inside the function: here the
+// dependencies are only downloaded, with install scripts disabled, and the workspace is handed to
+// the job as a tarball behind short-lived signed URLs. The job runs as a service account with no
+// roles, with egress limited to Cloud Storage, and runs the tests as an unprivileged user that
+// cannot see those URLs; it reports back by writing a result object the function then reads.
+
+export interface TestRunnerConfig {
+  project: string;
+  region: string;
+  // Name of the Cloud Run job built from testRunner/
+  job: string;
+  timeoutMs: number;
+  maxOutputBytes: number;
+}
+
+export interface TestRunResult {
+  command: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  // Combined stdout/stderr, keeping the tail when the cap is exceeded
+  output: string;
+}
+
+export class TestRunnerError extends Error {
+  readonly code = "TEST_RUNNER_FAILED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "TestRunnerError";
+  }
+}
+
+const RUNS_PREFIX = "evaluationRuns/";
+// Container start-up and workspace download on top of the test time limit
+const STARTUP_ALLOWANCE_MS = 3 * 60 * 1000;
+const POLL_INTERVAL_MS = 5000;
+// Wheels downloaded for Python challenges; the job installs them offline before the tests.
+const WHEELS_DIR = ".runner-wheels";
+
+/**
+ * TEST_RUNNER_JOB names the Cloud Run job; without it tests are not run (the emulator and local
+ * development have no isolated runtime). TEST_RUNNER_REGION defaults to us-central1.
+ */
+export function testRunnerConfigFromEnv(env: NodeJS.ProcessEnv = process.env): TestRunnerConfig | null {
+  const job = env.TEST_RUNNER_JOB?.trim();
+  if (!job) return null;
+  const project = env.GCLOUD_PROJECT || env.GOOGLE_CLOUD_PROJECT;
+  if (!project) throw new Error("TEST_RUNNER_JOB is set but the Google Cloud project is unknown.");
+  return {
+    project,
+    region: env.TEST_RUNNER_REGION?.trim() || "us-central1",
+    job,
+    timeoutMs: (Number(env.EVALUATION_TEST_TIMEOUT_SECONDS) || 180) * 1000,
+    maxOutputBytes: 64 * 1024,
+  };
+}
+
+/**
+ * Fetches dependencies into the checkout without running any of the candidate's code: npm with
+ * lifecycle scripts disabled, pip restricted to prebuilt wheels. Returns null when there is nothing
+ * to install.
+ */
+export async function prepareDependencies(repoDir: string, config: TestRunnerConfig): Promise<TestRunResult | null> {
+  if (existsSync(join(repoDir, "package.json"))) {
+    return runTrusted("npm install --ignore-scripts --no-audit --no-fund", repoDir, config);
+  }
+  if (existsSync(join(repoDir, "requirements.txt"))) {
+    return runTrusted(`python3 -m pip download -q --only-binary=:all: -r requirements.txt -d ${WHEELS_DIR}`, repoDir, config);
+  }
+  return null;
+}
+
+/** Runs `command` against the prepared checkout in the Cloud Run job and waits for its result. */
+export async function runTestsIsolated(repoDir: string, command: string, runId: string, config: TestRunnerConfig): Promise<TestRunResult> {
+  const prefix = `${RUNS_PREFIX}${runId}/`;
+  const workspace = uploadsBucket().file(`${prefix}workspace.tar.gz`);
+  const result = uploadsBucket().file(`${prefix}result.json`);
+  const deadline = Date.now() + config.timeoutMs + STARTUP_ALLOWANCE_MS;
+  try {
+    const archive = await runTrusted("tar --exclude=.git -czf - .", repoDir, { ...config, maxOutputBytes: Infinity }, "buffer");
+    if (archive.exitCode !== 0) throw new TestRunnerError(`Could not package the workspace: ${archive.output.slice(-500)}`);
+    await workspace.save(archive.buffer, { resumable: false, contentType: "application/gzip" });
+
+    const expires = deadline + 5 * 60 * 1000;
+    const [[workspaceUrl], [resultUrl]] = await Promise.all([
+      workspace.getSignedUrl({ version: "v4", action: "read", expires }),
+      result.getSignedUrl({ version: "v4", action: "write", expires, contentType: "application/json" }),
+    ]);
+    await startJob(config, {
+      WORKSPACE_URL: workspaceUrl,
+      RESULT_URL: resultUrl,
+      TEST_COMMAND: command,
+      TEST_TIMEOUT_SECONDS: String(Math.ceil(config.timeoutMs / 1000)),
+      MAX_OUTPUT_BYTES: String(config.maxOutputBytes),
+    });
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      const [exists] = await result.exists();
+      if (exists) return parseResult((await result.download())[0], command, config);
+    }
+    throw new TestRunnerError(
+      `The test runner did not report back within ${Math.round((config.timeoutMs + STARTUP_ALLOWANCE_MS) / 60_000)} minutes.`
+    );
+  } finally {
+    await uploadsBucket().deleteFiles({ prefix }).catch((err) => logger.warn(`Could not delete ${prefix}`, err));
+  }
+}
+
+async function startJob(config: TestRunnerConfig, env: Record<string, string>): Promise<void> {
+  const { access_token: token } = await applicationDefault().getAccessToken();
+  const url = `https://run.googleapis.com/v2/projects/${config.project}/locations/${config.region}/jobs/${config.job}:run`;
+  try {
+    await axios.post(
+      url,
+      {
+        overrides: {
+          containerOverrides: [{ env: Object.entries(env).map(([name, value]) => ({ name, value })) }],
+          taskCount: 1,
+          timeout: `${Math.ceil((config.timeoutMs + STARTUP_ALLOWANCE_MS) / 1000)}s`,
+        },
+      },
+      { headers: { Authorization: `Bearer ${token}` }, timeout: 30_000 }
+    );
+  } catch (err) {
+    const message = axios.isAxiosError(err) ? `${err.response?.status ?? "no response"} ${JSON.stringify(err.response?.data ?? err.message)}` : String(err);
+    throw new TestRunnerError(`Could not start the test runner job ${config.job}: ${message}`);
+  }
+}
+
+// The job writes the result, but it is still the candidate's output: check the shape and cap it.
+function parseResult(raw: Buffer, command: string, config: TestRunnerConfig): TestRunResult {
+  let data: Partial<TestRunResult>;
+  try {
+    data = JSON.parse(raw.toString("utf-8"));
+  } catch {
+    throw new TestRunnerError("The test runner returned an unreadable result.");
+  }
+  return {
+    command,
+    exitCode: typeof data.exitCode === "number" ? data.exitCode : null,
+    timedOut: data.timedOut === true,
+    durationMs: typeof data.durationMs === "number" ? data.durationMs : 0,
+    output: typeof data.output === "string" ? data.output.slice(-config.maxOutputBytes) : "",
+  };
+}
+
+// Only for trusted commands (package downloads, tar); candidate code goes to the job.
+function runTrusted(command: string, cwd: string, config: TestRunnerConfig): Promise<TestRunResult>;
+function runTrusted(command: string, cwd: string, config: TestRunnerConfig, stdout: "buffer"): Promise<TestRunResult & { buffer: Buffer }>;
+function runTrusted(command: string, cwd: string, config: TestRunnerConfig, stdout?: "buffer"): Promise<TestRunResult & { buffer?: Buffer }> {
+  const started = Date.now();
+  // Next to the checkout, so caches and config files stay out of the archive
+  const home = join(dirname(cwd), "home");
+  mkdirSync(home, { recursive: true });
+  return new Promise((resolve) => {
+    const child = spawn("sh", ["-c", command], {
+      cwd,
+      env: {
+        PATH: process.env.PATH || "/usr/local/bin:/usr/bin:/bin",
+        HOME: home,
+        CI: "1",
+        npm_config_cache: join(home, ".npm"),
+      },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const chunks: Buffer[] = [];
+    let output = "";
+    const capture = (chunk: Buffer) => {
+      output = (output + chunk.toString("utf-8")).slice(-config.maxOutputBytes);
+    };
+    child.stdout.on("data", stdout === "buffer" ? (chunk: Buffer) => chunks.push(chunk) : capture);
+    child.stderr.on("data", capture);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGKILL");
+    }, config.timeoutMs);
+    let finished = false;
+    const finish = (exitCode: number | null) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      resolve({ command, exitCode, timedOut, durationMs: Date.now() - started, output, buffer: Buffer.concat(chunks) });
+    };
+    child.on("error", (err) => {
+      output += `\n${err.message}`;
+      finish(null);
+    });
+    child.on("close", finish);
+  });
+}
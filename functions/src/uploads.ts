@@ -0,0 +1,62 @@
+import type { UploadedDocument } from "./documents.js";
+import { uploadsBucket } from "./firebaseAdmin.js";
+
+// Raw uploads are parked in Cloud Storage between the HTTP request that enqueues a job
+// and the background worker that parses them. Job documents only hold the object path.
+// Invitations park their job description the same way until the candidate accepts.
+
+export interface StoredUpload {
+  filename: string | null;
+  mimeType: string | null;
+  size: number;
+  storagePath: string;
+}
+
+const uploadPrefix = (jobId: string) => `generationJobs/${jobId}/`;
+const invitationPrefix = (invitationId: string) => `invitations/${invitationId}/`;
+
+export function storeUpload(jobId: string, field: string, doc: UploadedDocument): Promise<StoredUpload> {
+  return saveObject(`${uploadPrefix(jobId)}${field}`, doc);
+}
+
+export function storeInvitationUpload(invitationId: string, field: string, doc: UploadedDocument): Promise<StoredUpload> {
+  return saveObject(`${invitationPrefix(invitationId)}${field}`, doc);
+}
+
+/** Copies a stored upload under a job, so the job owns (and later deletes) its own inputs. */
+export async function copyUploadToJob(upload: StoredUpload, jobId: string, field: string): Promise<StoredUpload> {
+  const storagePath = `${uploadPrefix(jobId)}${field}`;
+  await uploadsBucket().file(upload.storagePath).copy(uploadsBucket().file(storagePath));
+  return { ...upload, storagePath };
+}
+
+async function saveObject(storagePath: string, doc: UploadedDocument): Promise<StoredUpload> {
+  await uploadsBucket().file(storagePath).save(doc.buffer, {
+    resumable: false,
+    contentType: doc.mimeType || "application/octet-stream",
+    metadata: { metadata: { originalFilename: doc.filename || "" } },
+  });
+  return {
+    filename: doc.filename || null,
+    mimeType: doc.mimeType || null,
+    size: doc.buffer.length,
+    storagePath,
+  };
+}
+
+export async function loadUpload(upload: StoredUpload): Promise<UploadedDocument> {
+  const [buffer] = await uploadsBucket().file(upload.storagePath).download();
+  return {
+    buffer,
+    filename: upload.filename || undefined,
+    mimeType: upload.mimeType || undefined,
+  };
+}
+
+export async function deleteJobUploads(jobId: string): Promise<void> {
+  await uploadsBucket().deleteFiles({ prefix: uploadPrefix(jobId) });
+}
+
+export async function deleteInvitationUploads(invitationId: string): Promise<void> {
+  await uploadsBucket().deleteFiles({ prefix: invitationPrefix(invitationId) });
+}
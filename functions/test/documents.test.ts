@@ -0,0 +1,111 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { describe, expect, it } from "vitest";
+import { DocumentExtractionError, detectDocumentKind, extractDocumentText } from "../src/documents.js";
+
+// Sample uploads live in the repo's docs/ directory.
+const DOCS = fileURLToPath(new URL("../../docs/", import.meta.url));
+const sample = (filename: string) => ({ buffer: readFileSync(join(DOCS, filename)), filename });
+
+async function extractionError(doc: Parameters<typeof extractDocumentText>[0]): Promise<DocumentExtractionError> {
+  const error = await extractDocumentText(doc).then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(DocumentExtractionError);
+  return error as DocumentExtractionError;
+}
+
+describe("extractDocumentText", () => {
+  it("reads the PDF sample", async () => {
+    const { kind, text } = await extractDocumentText(sample("Tanner Heffner - long resume, text only.pdf"));
+    expect(kind).toBe("pdf");
+    expect(text).toMatch(/Tanner/);
+    expect(text.length).toBeGreaterThan(500);
+  });
+
+  it("reads the DOCX sample", async () => {
+    const { kind, text } = await extractDocumentText(sample("sampleResume.docx"));
+    expect(kind).toBe("docx");
+    expect(text).toContain("Jordan Rivera");
+    expect(text).toContain("Skills: TypeScript, Node.js, React");
+  });
+
+  it("reads the DOC sample", async () => {
+    const { kind, text } = await extractDocumentText(sample("sampleResume.doc"));
+    expect(kind).toBe("doc");
+    expect(text).toContain("Senior Software Engineer");
+    expect(text).toContain("billing API to PostgreSQL");
+  });
+
+  it("reads the plain text job description", async () => {
+    const { kind, text } = await extractDocumentText(sample("sampleJobDescrip.txt"));
+    expect(kind).toBe("text");
+    expect(text.length).toBeGreaterThan(100);
+  });
+
+  it("reports documents with too little text", async () => {
+    const error = await extractionError(sample("sampleResume.txt"));
+    expect(error.code).toBe("NO_TEXT_CONTENT");
+  });
+
+  it("reports an empty upload as having no text", async () => {
+    const error = await extractionError({ buffer: Buffer.alloc(0), filename: "resume.txt" });
+    expect(error.code).toBe("NO_TEXT_CONTENT");
+  });
+
+  it("reports a truncated DOCX as unreadable", async () => {
+    const { buffer } = sample("sampleResume.docx");
+    const error = await extractionError({ buffer: buffer.subarray(0, 200), filename: "resume.docx" });
+    expect(error.code).toBe("UNREADABLE_DOCUMENT");
+    expect(error.filename).toBe("resume.docx");
+  });
+
+  it("reports a corrupt DOC as unreadable", async () => {
+    const { buffer } = sample("sampleResume.doc");
+    const error = await extractionError({ buffer: buffer.subarray(0, 600), filename: "resume.doc" });
+    expect(error.code).toBe("UNREADABLE_DOCUMENT");
+  });
+
+  it("rejects images", async () => {
+    const png = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex");
+    const error = await extractionError({ buffer: png, filename: "resume.png", mimeType: "image/png" });
+    expect(error.code).toBe("UNSUPPORTED_TYPE");
+    expect(error.message).toMatch(/Image files are not supported/);
+  });
+
+  it("rejects binary files with an unsupported extension", async () => {
+    const error = await extractionError({ buffer: Buffer.from([0, 1, 2, 3, 255]), filename: "resume.bin" });
+    expect(error.code).toBe("UNSUPPORTED_TYPE");
+  });
+});
+
+describe("detectDocumentKind", () => {
+  it("trusts magic bytes over the declared type", () => {
+    const { buffer } = sample("sampleResume.docx");
+    expect(detectDocumentKind({ buffer, filename: "resume.pdf", mimeType: "application/octet-stream" })).toBe("docx");
+    expect(detectDocumentKind({ buffer: sample("sampleResume.doc").buffer, filename: "upload" })).toBe("doc");
+  });
+
+  it("does not treat other zip containers as DOCX", () => {
+    // Central directory of a zip holding only xl/workbook.xml, as an xlsx would
+    const name = Buffer.from("xl/workbook.xml");
+    const local = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(26), name]);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.concat([Buffer.alloc(46), name]);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(name.length, 28);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(1, 10);
+    end.writeUInt32LE(central.length, 12);
+    end.writeUInt32LE(local.length, 16);
+    const xlsx = Buffer.concat([local, central, end]);
+
+    expect(detectDocumentKind({ buffer: xlsx, filename: "resume.xlsx" })).toBeUndefined();
+    expect(detectDocumentKind({ buffer: xlsx, filename: "resume.docx" })).toBeUndefined();
+  });
+
+  it("falls back to the extension for text", () => {
+    expect(detectDocumentKind({ buffer: Buffer.from("Plain resume text"), filename: "notes.md" })).toBe("text");
+    expect(detectDocumentKind({ buffer: Buffer.from("Plain resume text"), filename: "notes.csv" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+
+// Just enough of the Firestore Admin API for the modules under test, kept in memory: document
+// references, equality queries and transactions. Dotted update paths and the increment, delete
+// and serverTimestamp sentinels are applied the way Firestore applies them.
+
+type Data = Record<string, unknown>;
+
+export class FakeFirestore {
+  readonly documents = new Map<string, Data>();
+
+  collection(path: string): FakeQuery {
+    return new FakeQuery(this, path, [], Infinity);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  async runTransaction<T>(work: (tx: FakeTransaction) => Promise<T>): Promise<T> {
+    const tx = new FakeTransaction();
+    const result = await work(tx);
+    await tx.commit();
+    return result;
+  }
+
+  /** Seeds a document, replacing whatever was there. */
+  seed(path: string, data: Data): FakeDocumentReference {
+    this.documents.set(path, cloneData(data));
+    return this.doc(path);
+  }
+
+  data(path: string): Data | undefined {
+    return this.documents.get(path);
+  }
+
+  clear(): void {
+    this.documents.clear();
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(private readonly store: FakeFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.slice(this.path.lastIndexOf("/") + 1);
+  }
+
+  collection(name: string): FakeQuery {
+    return this.store.collection(`${this.path}/${name}`);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return new FakeDocumentSnapshot(this, this.store.data(this.path));
+  }
+
+  async set(data: Data): Promise<void> {
+    this.store.documents.set(this.path, applyFields({}, data));
+  }
+
+  async create(data: Data): Promise<void> {
+    if (this.store.documents.has(this.path)) throw new Error(`6 ALREADY_EXISTS: ${this.path}`);
+    await this.set(data);
+  }
+
+  async update(data: Data): Promise<void> {
+    const current = this.store.data(this.path);
+    if (!current) throw new Error(`5 NOT_FOUND: ${this.path}`);
+    this.store.documents.set(this.path, applyFields(current, data));
+  }
+
+  async delete(): Promise<void> {
+    this.store.documents.delete(this.path);
+  }
+}
+
+export class FakeDocumentSnapshot {
+  constructor(readonly ref: FakeDocumentReference, private readonly stored: Data | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.stored && cloneData(this.stored);
+  }
+
+  get(field: string): unknown {
+    return this.stored && readField(this.stored, field);
+  }
+}
+
+class FakeQuery {
+  constructor(
+    private readonly store: FakeFirestore,
+    private readonly path: string,
+    private readonly filters: [string, unknown][],
+    private readonly max: number
+  ) {}
+
+  doc(id: string): FakeDocumentReference {
+    return this.store.doc(`${this.path}/${id}`);
+  }
+
+  where(field: string, op: string, value: unknown): FakeQuery {
+    if (op !== "==") throw new Error(`FakeFirestore only supports == filters, not ${op}`);
+    return new FakeQuery(this.store, this.path, [...this.filters, [field, value]], this.max);
+  }
+
+  limit(max: number): FakeQuery {
+    return new FakeQuery(this.store, this.path, this.filters, max);
+  }
+
+  async get() {
+    const prefix = `${this.path}/`;
+    const docs = [...this.store.documents]
+      .filter(([path, data]) => path.startsWith(prefix) && !path.slice(prefix.length).includes("/")
+        && this.filters.every(([field, value]) => readField(data, field) === value))
+      .slice(0, this.max)
+      .map(([path, data]) => new FakeDocumentSnapshot(this.store.doc(path), data));
+    return { docs, empty: docs.length === 0, size: docs.length };
+  }
+}
+
+// Reads happen straight away and writes are applied together on commit.
+class FakeTransaction {
+  private readonly writes: (() => Promise<void>)[] = [];
+
+  get(ref: FakeDocumentReference): Promise<FakeDocumentSnapshot> {
+    return ref.get();
+  }
+
+  create(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push(() => ref.create(data));
+    return this;
+  }
+
+  set(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push(() => ref.set(data));
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push(() => ref.update(data));
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push(() => ref.delete());
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    for (const write of this.writes) await write();
+  }
+}
+
+// Deep copy that keeps Timestamps (and other class instances) as they are
+function cloneData<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(cloneData) as T;
+  if (value === null || typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, cloneData(nested)])) as T;
+}
+
+function readField(data: Data, field: string): unknown {
+  return field.split(".").reduce<unknown>((value, key) => (value as Data | undefined)?.[key], data);
+}
+
+function applyFields(current: Data, fields: Data): Data {
+  const next = cloneData(current);
+  for (const [field, value] of Object.entries(fields)) {
+    const keys = field.split(".");
+    const last = keys.pop() as string;
+    let parent = next;
+    for (const key of keys) {
+      if (typeof parent[key] !== "object" || parent[key] === null) parent[key] = {};
+      parent = parent[key] as Data;
+    }
+    const resolved = resolveValue(parent[last], value);
+    if (resolved === undefined) delete parent[last];
+    else parent[last] = resolved;
+  }
+  return next;
+}
+
+function resolveValue(current: unknown, value: unknown): unknown {
+  if (value instanceof FieldValue) {
+    const sentinel = value as unknown as { methodName: string; operand?: number };
+    switch (sentinel.methodName) {
+      case "FieldValue.increment":
+        return (typeof current === "number" ? current : 0) + (sentinel.operand ?? 0);
+      case "FieldValue.serverTimestamp":
+        return Timestamp.now();
+      case "FieldValue.delete":
+        return undefined;
+      default:
+        throw new Error(`FakeFirestore does not support ${sentinel.methodName}`);
+    }
+  }
+  if (value instanceof Timestamp || value === null || typeof value !== "object" || Array.isArray(value)) return value;
+  // Nested maps may hold sentinels too
+  return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, resolveValue(undefined, nested)]));
+}
@@ -0,0 +1,181 @@
+import { readFileSync } from "fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_GENERATION_OPTIONS, GenerationOptions } from "../src/generationOptions.js";
+import { buildChallengeRequest, generateChallenge, MAX_SPEC_ATTEMPTS, SpecValidationError } from "../src/generator.js";
+import { createLlmProvider, llmConfigFromEnv, LlmCompletionRequest, LlmProvider } from "../src/llm/index.js";
+import { DEFAULT_TEMPLATE_ID } from "../src/prompts/index.js";
+import { ChallengeSpec, validateChallengeSpec } from "../src/spec.js";
+
+const resume = "Jordan Rivera\nSenior Software Engineer\nSkills: TypeScript, Node.js, React, PostgreSQL\nLed the billing API migration.";
+const jobDescription = readFileSync(new URL("../../docs/sampleJobDescrip.txt", import.meta.url), "utf-8");
+
+// The provider LLM_PROVIDER=mock selects; it must never ask for an API key.
+const apiKey = vi.fn(() => "unused");
+const mockProvider = () => createLlmProvider(llmConfigFromEnv({ LLM_PROVIDER: "mock" }), apiKey);
+
+const request = (options: Partial<GenerationOptions> = {}, templateId = DEFAULT_TEMPLATE_ID) =>
+  buildChallengeRequest(templateId, resume, jobDescription, { ...DEFAULT_GENERATION_OPTIONS, ...options });
+
+/**
+ * Wraps the mock so attempt n's spec is passed through edits[n - 1] first (a string result is sent
+ * as the raw response); later attempts pass through untouched.
+ */
+function scriptedProvider(edits: ((spec: ChallengeSpec) => unknown)[]) {
+  const inner = mockProvider();
+  const requests: LlmCompletionRequest[] = [];
+  const provider: LlmProvider = {
+    name: "scripted",
+    async complete(req) {
+      requests.push(structuredClone(req));
+      const completion = await inner.complete(req);
+      const edit = edits[requests.length - 1];
+      if (!edit) return completion;
+      const edited = edit(JSON.parse(completion.content));
+      return { ...completion, content: typeof edited === "string" ? edited : JSON.stringify(edited) };
+    },
+  };
+  return { provider, requests };
+}
+
+beforeEach(() => {
+  // Validation retries are logged as warnings.
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("mock provider", () => {
+  it("is selected by LLM_PROVIDER=mock without an API key", () => {
+    expect(mockProvider().name).toBe("mock");
+    expect(apiKey).not.toHaveBeenCalled();
+  });
+
+  it("answers the same request the same way", async () => {
+    const llm = mockProvider();
+    const completion = { model: "gpt-4o", messages: [{ role: "user" as const, content: "hello" }], maxTokens: 100, responseFormat: "json" as const };
+    const [first, second] = await Promise.all([llm.complete(completion), llm.complete(completion)]);
+    expect(second).toEqual(first);
+    expect(first.model).toBe("mock-gpt-4o");
+    const other = await llm.complete({ ...completion, messages: [{ role: "user", content: "hello again" }] });
+    expect(JSON.parse(other.content).title).not.toBe(JSON.parse(first.content).title);
+  });
+});
+
+describe("generateChallenge", () => {
+  it("produces a valid spec and starter repo on the first attempt", async () => {
+    const result = await generateChallenge(mockProvider(), request());
+    expect(result.attempts).toBe(1);
+    expect(result.model).toMatch(/^mock-/);
+    expect(result.spec?.hiddenBugs).toHaveLength(2);
+    expect(result.manifest.files.map((f) => f.path)).toEqual(["package.json", "src/inventory.js"]);
+    expect(result.manifest.tests.map((f) => f.path)).toEqual(["test/inventory.test.js"]);
+    expect(result.manifest.readme).toMatch(/^# Inventory Service \(mock [0-9a-f]{8}\)/);
+    // The README is rendered from the spec and never includes the answer key
+    expect(result.manifest.readme).not.toContain(result.spec?.hiddenBugs[0].description);
+    expect(result.usage.promptTokens).toBeGreaterThan(0);
+    expect(result.usage.completionTokens).toBeGreaterThan(0);
+  });
+
+  it("follows the generation options", async () => {
+    const { provider, requests } = scriptedProvider([]);
+    const options = { ...DEFAULT_GENERATION_OPTIONS, difficulty: "senior" as const, durationMinutes: 45, seedBugs: false };
+    const { spec } = await generateChallenge(provider, request(options));
+    expect(spec).toMatchObject({ difficulty: "senior", estimatedMinutes: 45, hiddenBugs: [] });
+    // The options travel with the request; the prompt only describes them in prose
+    expect(requests[0].generationOptions).toEqual(options);
+    expect(requests[0].messages[0].content).toContain('Pitch the challenge at senior level and set "difficulty" to "senior".');
+    expect(requests[0].messages[0].content).not.toContain(JSON.stringify(options));
+  });
+
+  it("returns the README as is for markdown templates", async () => {
+    const result = await generateChallenge(mockProvider(), request({}, "v1"));
+    expect(result.spec).toBeNull();
+    expect(result.manifest.readme).toMatch(/^# Coding Challenge\n/);
+    expect(result.manifest.files).toEqual([]);
+  });
+
+  it("sends schema errors back to the model and retries", async () => {
+    const { provider, requests } = scriptedProvider([(spec) => ({ ...spec, difficulty: "expert", extra: true })]);
+    const result = await generateChallenge(provider, request());
+
+    expect(result.attempts).toBe(2);
+    expect(result.spec?.difficulty).toBe("mid");
+    const retry = requests[1].messages;
+    expect(retry).toHaveLength(3);
+    expect(retry[1].role).toBe("assistant");
+    expect(JSON.parse(retry[1].content).difficulty).toBe("expert");
+    expect(retry[2]).toEqual({
+      role: "user",
+      content: [
+        "That JSON did not pass validation:",
+        '- (root): unexpected property "extra".',
+        "- difficulty: must be one of junior, mid, senior, staff.",
+        "Return the corrected JSON object only.",
+      ].join("\n"),
+    });
+  });
+
+  it("sends a spec that ignores the options back", async () => {
+    const { provider, requests } = scriptedProvider([(spec) => ({ ...spec, difficulty: "junior" })]);
+    const result = await generateChallenge(provider, request({ difficulty: "staff" }));
+    expect(result.attempts).toBe(2);
+    expect(result.spec?.difficulty).toBe("staff");
+    expect(requests[1].messages[2].content).toContain('- "difficulty" must be "staff", not "junior".');
+  });
+
+  it("gives up after the last attempt", async () => {
+    const broken = () => "not json";
+    const { provider, requests } = scriptedProvider(Array(MAX_SPEC_ATTEMPTS).fill(broken));
+    const error = await generateChallenge(provider, request()).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(SpecValidationError);
+    expect((error as SpecValidationError).code).toBe("INVALID_SPEC");
+    expect((error as SpecValidationError).errors[0]).toMatch(/^Response is not valid JSON/);
+    expect(requests).toHaveLength(MAX_SPEC_ATTEMPTS);
+  });
+});
+
+describe("validateChallengeSpec", () => {
+  let spec: ChallengeSpec;
+
+  beforeEach(async () => {
+    const completion = await mockProvider().complete({ model: "gpt-4o", messages: [{ role: "user", content: "spec" }], maxTokens: 100, responseFormat: "json" });
+    spec = JSON.parse(completion.content);
+  });
+
+  const errorsFor = (value: unknown) => {
+    const result = validateChallengeSpec(typeof value === "string" ? value : JSON.stringify(value));
+    return result.ok ? [] : result.errors;
+  };
+
+  it("accepts the mock spec, with or without a code fence", () => {
+    expect(errorsFor(spec)).toEqual([]);
+    expect(errorsFor(`\`\`\`json\n${JSON.stringify(spec, null, 2)}\n\`\`\``)).toEqual([]);
+  });
+
+  it("reports every schema error", () => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { title, ...untitled } = spec;
+    expect(errorsFor({ ...untitled, estimatedMinutes: 5, requirements: [] })).toEqual([
+      "(root): must have required property 'title'.",
+      "estimatedMinutes: must be >= 15.",
+      "requirements: must NOT have fewer than 1 items.",
+    ]);
+  });
+
+  it("checks the rubric weights and bug locations", () => {
+    const rubric = spec.evaluationRubric.map((c) => ({ ...c, weight: 10 }));
+    const bugs = [{ ...spec.hiddenBugs[0], file: "src/missing.js" }];
+    expect(errorsFor({ ...spec, evaluationRubric: rubric, hiddenBugs: bugs })).toEqual([
+      "evaluationRubric weights must sum to 100 (got 30).",
+      'hiddenBugs entry refers to "src/missing.js", which is not one of the files.',
+    ]);
+  });
+
+  it("rejects starter code that points at the planted bugs", () => {
+    const files = spec.files.map((f) => (f.path === "src/inventory.js" ? { ...f, content: `// FIXME: bug here\n${f.content}` } : f));
+    expect(errorsFor({ ...spec, files })).toEqual(["src/inventory.js:1 hints at a planted bug; remove the comment or reword it."]);
+  });
+});
@@ -0,0 +1,281 @@
+import { createHmac } from "crypto";
+import { readFileSync } from "fs";
+import { DocumentData, Timestamp } from "firebase-admin/firestore";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEADLINE_LIMITS } from "../src/deadlines.js";
+import { db } from "../src/firebaseAdmin.js";
+import { handleGitHubEvent, verifyGitHubSignature } from "../src/githubWebhooks.js";
+import type { Notifier } from "../src/notifiers/index.js";
+import type { FakeFirestore } from "./fakeFirestore.js";
+
+vi.mock("../src/firebaseAdmin.js", async () => {
+  const { FakeFirestore } = await import("./fakeFirestore.js");
+  return {
+    db: new FakeFirestore(),
+    adminAuth: { getUser: async (uid: string) => ({ uid, email: `${uid}@example.com` }) },
+    uploadsBucket: () => {
+      throw new Error("Storage is not available in tests");
+    },
+  };
+});
+
+const store = db as unknown as FakeFirestore;
+
+// Deliveries recorded from a challenge repo, trimmed to the documented fields.
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/github/${name}.json`, import.meta.url));
+const payload = (name: string) => JSON.parse(fixture(name).toString("utf-8"));
+
+const CHALLENGE = "challenges/challenge-1";
+const CREATED_AT = Timestamp.fromMillis(Date.parse("2026-01-13T12:00:00Z"));
+
+function seedChallenge(overrides: Record<string, unknown> = {}) {
+  store.seed(CHALLENGE, {
+    ownerUid: "interviewer-1",
+    repoHost: "github",
+    repoFullName: "acme-interviews/cart-checkout-k3x9",
+    defaultBranch: "main",
+    scaffoldCommitSha: "3e5a7c9b1d2f4e6a8c0b1d3f5e7a9c2b4d6f8e0a",
+    createdAt: CREATED_AT,
+    candidateAccess: { username: "jordan-rivera", state: "pending" },
+    deadline: { kind: "timeLimit", minutes: 90, startedAt: null, dueAt: null, status: "pending" },
+    submission: null,
+    ...overrides,
+  });
+}
+
+const challenge = () => store.data(CHALLENGE) as DocumentData;
+const activity = (deliveryId: string) => store.data(`${CHALLENGE}/activity/${deliveryId}`);
+
+let notifier: Notifier & { notify: ReturnType<typeof vi.fn> };
+
+beforeEach(() => {
+  store.clear();
+  seedChallenge();
+  notifier = { name: "test", notify: vi.fn(async () => undefined) };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("verifyGitHubSignature", () => {
+  const secret = "webhook-secret";
+  const body = fixture("push");
+  const sign = (bytes: Buffer, key = secret) => `sha256=${createHmac("sha256", key).update(bytes).digest("hex")}`;
+
+  it("accepts the signature of the raw body", () => {
+    expect(verifyGitHubSignature(body, sign(body), secret)).toBe(true);
+  });
+
+  it("rejects a tampered body", () => {
+    const tampered = Buffer.from(body.toString("utf-8").replace('"deleted": false', '"deleted": true'));
+    expect(verifyGitHubSignature(tampered, sign(body), secret)).toBe(false);
+  });
+
+  it("rejects a signature made with another secret", () => {
+    expect(verifyGitHubSignature(body, sign(body, "other-secret"), secret)).toBe(false);
+  });
+
+  it("rejects missing or malformed signatures", () => {
+    expect(verifyGitHubSignature(body, undefined, secret)).toBe(false);
+    expect(verifyGitHubSignature(body, sign(body).replace("sha256=", "sha1="), secret)).toBe(false);
+    expect(verifyGitHubSignature(body, "sha256=abc", secret)).toBe(false);
+  });
+
+  it("rejects everything without a secret", () => {
+    expect(verifyGitHubSignature(body, sign(body, ""), "")).toBe(false);
+  });
+});
+
+describe("handleGitHubEvent", () => {
+  it("ignores events it does not subscribe to", async () => {
+    await expect(handleGitHubEvent("installation", "d-0", payload("installation.created"), notifier)).resolves.toEqual({
+      handled: false,
+      reason: "Ignoring installation event",
+    });
+  });
+
+  it("ignores repos without a challenge", async () => {
+    const push = { ...payload("push"), repository: { full_name: "acme-interviews/unrelated" } };
+    await expect(handleGitHubEvent("push", "d-0", push, notifier)).resolves.toEqual({
+      handled: false,
+      reason: "No challenge for acme-interviews/unrelated",
+    });
+  });
+
+  describe("push", () => {
+    it("logs the delivery and counts the commits", async () => {
+      await expect(handleGitHubEvent("push", "d-1", payload("push"), notifier)).resolves.toEqual({
+        handled: true,
+        challengeId: "challenge-1",
+        submitted: false,
+      });
+
+      expect(activity("d-1")).toMatchObject({
+        ownerUid: "interviewer-1",
+        event: "push",
+        action: null,
+        actor: "jordan-rivera",
+        summary: "2 commit(s) pushed to fix-discount",
+      });
+      const firstCommit = Date.parse("2026-01-13T13:02:11Z");
+      expect(challenge().activity).toMatchObject({
+        pushes: 1,
+        commits: 2,
+        lastCommitSha: "9f2c4e1b7a3d5c8e0f1a2b3c4d5e6f708192a3b4",
+        timeToFirstCommitMs: firstCommit - CREATED_AT.toMillis(),
+      });
+      expect(challenge().activity.firstCommitAt.toMillis()).toBe(firstCommit);
+      expect(challenge().activity.lastCommitAt.toMillis()).toBe(Date.parse("2026-01-13T13:17:25Z"));
+      expect(notifier.notify).not.toHaveBeenCalled();
+    });
+
+    it("treats a redelivery as a no-op", async () => {
+      await handleGitHubEvent("push", "d-1", payload("push"), notifier);
+      await expect(handleGitHubEvent("push", "d-1", payload("push"), notifier)).resolves.toEqual({
+        handled: false,
+        reason: "Delivery d-1 already processed",
+      });
+      expect(challenge().activity).toMatchObject({ pushes: 1, commits: 2 });
+    });
+
+    it("adds later pushes without moving the first commit", async () => {
+      await handleGitHubEvent("push", "d-1", payload("push"), notifier);
+      const later = payload("push");
+      later.after = "c0ffee0000000000000000000000000000000001";
+      later.commits = [{ ...later.commits[0], id: later.after, timestamp: "2026-01-13T15:00:00Z" }];
+      await handleGitHubEvent("push", "d-2", later, notifier);
+
+      expect(challenge().activity).toMatchObject({ pushes: 2, commits: 3, lastCommitSha: later.after });
+      expect(challenge().activity.firstCommitAt.toMillis()).toBe(Date.parse("2026-01-13T13:02:11Z"));
+      expect(activity("d-2")).toBeDefined();
+    });
+
+    it("starts a pending time limit", async () => {
+      await handleGitHubEvent("push", "d-1", payload("push"), notifier);
+      const { deadline } = challenge();
+      expect(deadline.status).toBe("running");
+      expect(deadline.dueAt.toMillis() - deadline.startedAt.toMillis()).toBe(90 * 60_000);
+    });
+
+    it("skips the scaffold push and branch deletions", async () => {
+      const scaffold = { ...payload("push"), after: challenge().scaffoldCommitSha };
+      await expect(handleGitHubEvent("push", "d-1", scaffold, notifier)).resolves.toEqual({
+        handled: false,
+        reason: "Nothing to record for push",
+      });
+      await handleGitHubEvent("push", "d-2", { ...payload("push"), deleted: true }, notifier);
+      expect(activity("d-1")).toBeUndefined();
+      expect(activity("d-2")).toBeUndefined();
+      expect(challenge().activity).toBeUndefined();
+    });
+  });
+
+  describe("pull_request", () => {
+    it("records a submission and notifies the interviewer once", async () => {
+      await expect(handleGitHubEvent("pull_request", "d-1", payload("pull_request.opened"), notifier)).resolves.toEqual({
+        handled: true,
+        challengeId: "challenge-1",
+        submitted: true,
+      });
+      expect(challenge().submission).toMatchObject({
+        state: "open",
+        pullRequestNumber: 1,
+        url: "https://github.com/acme-interviews/cart-checkout-k3x9/pull/1",
+        title: "Fix discount and rounding bugs",
+        headSha: "9f2c4e1b7a3d5c8e0f1a2b3c4d5e6f708192a3b4",
+      });
+      expect(activity("d-1")).toMatchObject({ event: "pull_request", action: "opened" });
+      expect(notifier.notify).toHaveBeenCalledWith({
+        kind: "submission",
+        challengeId: "challenge-1",
+        ownerUid: "interviewer-1",
+        ownerEmail: "interviewer-1@example.com",
+        title: "Candidate submitted acme-interviews/cart-checkout-k3x9",
+        message: 'Pull request #1 "Fix discount and rounding bugs" is ready for review.',
+        url: "https://github.com/acme-interviews/cart-checkout-k3x9/pull/1",
+      });
+
+      // GitHub sends ready_for_review or reopened for the same pull request later on
+      const submittedAt = challenge().submission.submittedAt;
+      const again = { ...payload("pull_request.opened"), action: "ready_for_review" };
+      await expect(handleGitHubEvent("pull_request", "d-2", again, notifier)).resolves.toMatchObject({ submitted: false });
+      expect(challenge().submission.submittedAt).toEqual(submittedAt);
+      expect(notifier.notify).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores pull requests against other branches", async () => {
+      const pr = payload("pull_request.opened");
+      pr.pull_request.base.ref = "fix-discount";
+      await expect(handleGitHubEvent("pull_request", "d-1", pr, notifier)).resolves.toEqual({
+        handled: false,
+        reason: "Nothing to record for pull_request",
+      });
+      expect(challenge().submission).toBeNull();
+    });
+
+    it("keeps the submission when the notifier fails", async () => {
+      notifier.notify.mockRejectedValue(new Error("chat service down"));
+      vi.spyOn(console, "warn").mockImplementation(() => undefined);
+      await expect(handleGitHubEvent("pull_request", "d-1", payload("pull_request.opened"), notifier)).resolves.toMatchObject({
+        handled: true,
+        submitted: true,
+      });
+      expect(challenge().submission.state).toBe("open");
+    });
+
+    it("tracks merges", async () => {
+      await handleGitHubEvent("pull_request", "d-1", payload("pull_request.opened"), notifier);
+      const merged = payload("pull_request.opened");
+      merged.action = "closed";
+      merged.pull_request.merged = true;
+      await handleGitHubEvent("pull_request", "d-2", merged, notifier);
+      expect(challenge().submission.state).toBe("merged");
+    });
+  });
+
+  describe("member", () => {
+    it("activates access and starts the clock when the candidate accepts", async () => {
+      await expect(handleGitHubEvent("member", "d-1", payload("member.added"), notifier)).resolves.toMatchObject({ handled: true });
+      expect(challenge().candidateAccess).toEqual({ username: "jordan-rivera", state: "active" });
+      expect(challenge().deadline.status).toBe("running");
+      expect(activity("d-1")).toMatchObject({ summary: "Jordan-Rivera accepted the repository invitation" });
+    });
+
+    it("keeps access until the end of a limit that starts close to the expiry", async () => {
+      const DAY = 24 * 60 * 60_000;
+      // Invited six days ago with the default seven days of access, and given the longest limit
+      const expiresAt = Timestamp.fromMillis(Date.now() + DAY);
+      seedChallenge({
+        candidateAccess: { username: "jordan-rivera", state: "pending", expiresAt },
+        deadline: { kind: "timeLimit", minutes: DEADLINE_LIMITS.maxMinutes, startedAt: null, dueAt: null, status: "pending" },
+      });
+      await handleGitHubEvent("member", "d-1", payload("member.added"), notifier);
+
+      const { candidateAccess, deadline } = challenge();
+      expect(deadline.dueAt.toMillis() - deadline.startedAt.toMillis()).toBe(14 * DAY);
+      expect(candidateAccess.expiresAt).toEqual(deadline.dueAt);
+    });
+
+    it("leaves access that outlasts the limit alone", async () => {
+      const expiresAt = Timestamp.fromMillis(Date.now() + 30 * 24 * 60 * 60_000);
+      seedChallenge({ candidateAccess: { username: "jordan-rivera", state: "pending", expiresAt } });
+      await handleGitHubEvent("member", "d-1", payload("member.added"), notifier);
+      expect(challenge().deadline.status).toBe("running");
+      expect(challenge().candidateAccess.expiresAt).toEqual(expiresAt);
+    });
+
+    it("ignores other collaborators", async () => {
+      const other = payload("member.added");
+      other.member.login = "someone-else";
+      await expect(handleGitHubEvent("member", "d-1", other, notifier)).resolves.toMatchObject({ handled: false });
+      expect(challenge().candidateAccess.state).toBe("pending");
+      expect(challenge().deadline.status).toBe("pending");
+    });
+
+    it("leaves access the sync already activated alone", async () => {
+      seedChallenge({ candidateAccess: { username: "jordan-rivera", state: "active" } });
+      await expect(handleGitHubEvent("member", "d-1", payload("member.added"), notifier)).resolves.toMatchObject({ handled: false });
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  backoffDelay,
+  CircuitBreaker,
+  CircuitOpenError,
+  httpRetryDecision,
+  parseRetryAfter,
+  RetryAttempt,
+  RetryPolicy,
+  withRetry
+} from "../src/resilience.js";
+
+const policy: RetryPolicy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 5000, budgetMs: 60_000 };
+const NOW = Date.UTC(2026, 0, 1);
+
+class TransientError extends Error {}
+const classify = (err: unknown) => ({ retry: err instanceof TransientError });
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW });
+  // The retry and breaker warnings are expected here.
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("backoffDelay", () => {
+  it("doubles per attempt up to the cap", () => {
+    const full = () => 1;
+    expect([1, 2, 3, 4, 5].map((attempt) => backoffDelay(policy, attempt, undefined, full))).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it("jitters within the upper half of the delay", () => {
+    expect(backoffDelay(policy, 2, undefined, () => 0)).toBe(1000);
+    expect(backoffDelay(policy, 2, undefined, () => 0.5)).toBe(1500);
+    for (let i = 0; i < 50; i++) {
+      const delay = backoffDelay(policy, 3, undefined);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    }
+  });
+
+  it("waits at least as long as the server asked", () => {
+    expect(backoffDelay(policy, 1, 10_000, () => 0)).toBe(10_000);
+    expect(backoffDelay(policy, 3, 100, () => 0)).toBe(2000);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds", () => {
+    expect(parseRetryAfter("120", NOW)).toBe(120_000);
+    expect(parseRetryAfter("0", NOW)).toBe(0);
+  });
+
+  it("reads an HTTP date", () => {
+    expect(parseRetryAfter(new Date(NOW + 30_000).toUTCString(), NOW)).toBe(30_000);
+    expect(parseRetryAfter(new Date(NOW - 30_000).toUTCString(), NOW)).toBe(0);
+  });
+
+  it("ignores missing and malformed values", () => {
+    expect(parseRetryAfter(undefined, NOW)).toBeUndefined();
+    expect(parseRetryAfter("", NOW)).toBeUndefined();
+    expect(parseRetryAfter("soon", NOW)).toBeUndefined();
+  });
+});
+
+describe("httpRetryDecision", () => {
+  it("retries rate limits even for non-idempotent requests", () => {
+    expect(httpRetryDecision({ status: 429, headers: { "retry-after": "7" }, idempotent: false }, NOW)).toEqual({
+      retry: true,
+      retryAfterMs: 7000,
+    });
+  });
+
+  it("treats GitHub 403s with rate limit headers as rate limits", () => {
+    const reset = String(NOW / 1000 + 60);
+    expect(
+      httpRetryDecision({ status: 403, headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": reset }, idempotent: false }, NOW)
+    ).toEqual({ retry: true, retryAfterMs: 60_000 });
+    expect(httpRetryDecision({ status: 403, headers: { "retry-after": "3" }, idempotent: false }, NOW)).toEqual({
+      retry: true,
+      retryAfterMs: 3000,
+    });
+  });
+
+  it("does not retry a 403 that is a permission error", () => {
+    const headers = { "x-ratelimit-remaining": "4999", "x-ratelimit-reset": String(NOW / 1000 + 60) };
+    expect(httpRetryDecision({ status: 403, headers, idempotent: true }, NOW)).toEqual({ retry: false });
+  });
+
+  it("retries server and network errors only when the request is idempotent", () => {
+    for (const status of [undefined, 408, 500, 502, 503, 504]) {
+      expect(httpRetryDecision({ status, idempotent: true }, NOW).retry).toBe(true);
+      expect(httpRetryDecision({ status, idempotent: false }, NOW).retry).toBe(false);
+    }
+  });
+
+  it("does not retry other client errors", () => {
+    for (const status of [400, 401, 404, 409, 422]) {
+      expect(httpRetryDecision({ status, idempotent: true }, NOW)).toEqual({ retry: false });
+    }
+  });
+});
+
+describe("withRetry", () => {
+  it("retries transient failures with backoff", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const work = vi.fn(async ({ attempt }: RetryAttempt) => {
+      if (attempt < 3) throw new TransientError(`attempt ${attempt}`);
+      return "done";
+    });
+    const result = withRetry("test", work, { policy, classify });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(work).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(work).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(work).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe("done");
+    expect(work).toHaveBeenCalledTimes(3);
+  });
+
+  it("rethrows permanent failures without retrying", async () => {
+    const error = new Error("bad request");
+    const work = vi.fn(async () => {
+      throw error;
+    });
+    await expect(withRetry("test", work, { policy, classify })).rejects.toBe(error);
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const work = vi.fn(async ({ attempt }: RetryAttempt) => {
+      throw new TransientError(`attempt ${attempt}`);
+    });
+    const result = withRetry("test", work, { policy, classify });
+    const settled = expect(result).rejects.toThrow("attempt 4");
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(work).toHaveBeenCalledTimes(policy.maxAttempts);
+  });
+
+  it("does not start a wait that would overrun the budget", async () => {
+    const work = vi.fn(async () => {
+      throw new TransientError("busy");
+    });
+    const classifyWithWait = () => ({ retry: true, retryAfterMs: 90_000 });
+    await expect(withRetry("test", work, { policy, classify: classifyWithWait })).rejects.toThrow("busy");
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  it("caps each attempt at the budget that is left", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    // A request that times out after 45s, or sooner when the budget says so
+    const work = vi.fn(({ remainingMs }: RetryAttempt) => new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new TransientError("timed out")), Math.min(45_000, remainingMs));
+    }));
+    const result = withRetry("test", work, { policy, classify });
+    const settled = expect(result).rejects.toThrow("timed out");
+    await vi.runAllTimersAsync();
+    await settled;
+
+    expect(work.mock.calls.map(([{ remainingMs }]) => remainingMs)).toEqual([60_000, 14_500]);
+    expect(Date.now() - NOW).toBe(policy.budgetMs);
+  });
+
+  it("stops retrying once the breaker opens", async () => {
+    const breaker = new CircuitBreaker("test", { failureThreshold: 2, cooldownMs: 10_000 });
+    const work = vi.fn(async () => {
+      throw new TransientError("down");
+    });
+    const result = withRetry("test", work, { policy, classify, breaker });
+    const settled = expect(result).rejects.toBeInstanceOf(CircuitOpenError);
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(work).toHaveBeenCalledTimes(2);
+    expect(breaker.state).toBe("open");
+  });
+
+  it("counts permanent failures as the dependency answering", async () => {
+    const breaker = new CircuitBreaker("test", { failureThreshold: 2, cooldownMs: 10_000 });
+    breaker.recordFailure();
+    await expect(
+      withRetry("test", async () => Promise.reject(new Error("not found")), { policy, classify, breaker })
+    ).rejects.toThrow("not found");
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const options = { failureThreshold: 3, cooldownMs: 10_000 };
+
+  function openBreaker(): CircuitBreaker {
+    const breaker = new CircuitBreaker("github", options);
+    for (let i = 0; i < options.failureThreshold; i++) breaker.recordFailure();
+    return breaker;
+  }
+
+  it("opens after consecutive failures", () => {
+    const breaker = new CircuitBreaker("github", options);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+  });
+
+  it("rejects calls while open", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(4000);
+    let thrown: unknown;
+    try {
+      breaker.acquire();
+    } catch (err) {
+      thrown = err;
+    }
+    expect(thrown).toBeInstanceOf(CircuitOpenError);
+    expect((thrown as CircuitOpenError).retryAfterMs).toBe(6000);
+    expect((thrown as CircuitOpenError).code).toBe("CIRCUIT_OPEN");
+  });
+
+  it("lets one trial call through after the cooldown", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(options.cooldownMs);
+    expect(breaker.state).toBe("halfOpen");
+    expect(() => breaker.acquire()).not.toThrow();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it("closes when the trial call succeeds", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(options.cooldownMs);
+    breaker.acquire();
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it("reopens straight away when the trial call fails", () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(options.cooldownMs);
+    breaker.acquire();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    vi.advanceTimersByTime(options.cooldownMs - 1);
+    expect(breaker.state).toBe("open");
+    vi.advanceTimersByTime(1);
+    expect(breaker.state).toBe("halfOpen");
+  });
+});
@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Without a config of its own, vitest would pick up the web app's vite.config.ts one level up.
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+  },
+});
@@ -1,7 +1,29 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Upload, FileText, Github, ExternalLink, CheckCircle, AlertCircle, Loader2, Moon, Sun, Volume2, VolumeX } from 'lucide-react';
+import { Upload, FileText, Github, ExternalLink, CheckCircle, AlertCircle, Loader2, Moon, Sun, Volume2, VolumeX, History, ShieldCheck, Mail, BookOpen, DollarSign } from 'lucide-react';
 import Login from './components/Login';
+import AdminPanel from './components/AdminPanel';
+import AcceptInvitation from './components/AcceptInvitation';
+import AnswerKeyPanel from './components/AnswerKeyPanel';
+import AwaitingRole from './components/AwaitingRole';
+import CandidateDashboard from './components/CandidateDashboard';
+import CostDashboard from './components/CostDashboard';
+import EvaluationPanel from './components/EvaluationPanel';
+import CandidateAccessStatus from './components/CandidateAccessStatus';
+import CandidateActivity from './components/CandidateActivity';
+import ChallengeHistory from './components/ChallengeHistory';
+import DeadlineCountdown from './components/DeadlineCountdown';
+import GenerationOptionsFields from './components/GenerationOptionsFields';
+import GenerationProgress from './components/GenerationProgress';
+import InvitationManager from './components/InvitationManager';
+import JobDescriptionLibrary from './components/JobDescriptionLibrary';
+import JobDescriptionPicker from './components/JobDescriptionPicker';
+import { ChallengeActivity, ChallengeDeadline, ChallengeRecord, ChallengeSubmission } from './challenges';
+import { CandidateAccessSummary, GenerationJob, subscribeToJob } from './generationJobs';
 import { auth } from './firebase';
+import { appendGenerationOptions, DEFAULT_GENERATION_OPTIONS, GenerationOptions } from './generationOptions';
+import { INVITE_PARAM } from './invitations';
+import { fetchQuota, QUOTA_METRICS, QuotaStatus } from './quotas';
+import { fetchRole, Role } from './roles';
 import { onAuthStateChanged, signOut, User } from 'firebase/auth';
 import { useTheme } from './theme/ThemeContext';
 
@@ -11,9 +33,17 @@ interface UploadedFile {
 }
 
 interface ChallengeResult {
+  challengeId?: string;
   challengeLink: string;
   githubRepo: string;
   devUrl: string;
+  markdown?: string;
+  files?: string[];
+  candidateAccess?: CandidateAccessSummary | null;
+  accessExpiresAt?: Date | null;
+  activity?: ChallengeActivity;
+  submission?: ChallengeSubmission | null;
+  deadline?: ChallengeDeadline | null;
   message?: string;
 }
 
@@ -24,10 +54,31 @@ function App() {
   const [copiedVSCode, setCopiedVSCode] = useState(false);
   const [resumeFile, setResumeFile] = useState<UploadedFile | null>(null);
   const [jobDescFile, setJobDescFile] = useState<UploadedFile | null>(null);
+  // Library entry used instead of an uploaded job description
+  const [savedJdId, setSavedJdId] = useState<string | null>(null);
+  const [candidateGithub, setCandidateGithub] = useState('');
+  const [candidateEmail, setCandidateEmail] = useState('');
+  const [deadlineKind, setDeadlineKind] = useState<'none' | 'timeLimit' | 'dueDate'>('none');
+  const [timeLimitHours, setTimeLimitHours] = useState('4');
+  const [dueAt, setDueAt] = useState('');
+  const [options, setOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
   const [isUploading, setIsUploading] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  // Idempotency-Key of the current submit; kept when it fails without an answer from the server,
+  // so retrying cannot start a second job
+  const idempotencyKey = useRef<string | null>(null);
+  const [job, setJob] = useState<GenerationJob | null>(null);
   const [result, setResult] = useState<ChallengeResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  // undefined while the ID token's role claim is loading
+  const [role, setRole] = useState<Role | null | undefined>(undefined);
+  const [view, setView] = useState<'generate' | 'history' | 'admin' | 'costs' | 'invitations' | 'library'>('generate');
+  // Token from an invitation link (?invite=...), kept until the candidate accepts or dismisses it
+  const [inviteToken, setInviteToken] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get(INVITE_PARAM)
+  );
   
   // Simple audio: autoplay muted on load
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -49,10 +100,55 @@ function App() {
 
   // Auth state listener
   useEffect(() => {
-    const unsub = onAuthStateChanged(auth, (u: User | null) => setUser(u));
+    const unsub = onAuthStateChanged(auth, (u: User | null) => {
+      setUser(u);
+      setRole(undefined);
+      if (u) fetchRole(u).then(setRole).catch(() => setRole(null));
+    });
     return () => unsub();
   }, []);
 
+  const refreshRole = useCallback(async () => {
+    if (user) setRole(await fetchRole(user, true));
+  }, [user]);
+
+  const refreshQuota = useCallback(async () => {
+    if (!user || (role !== 'interviewer' && role !== 'admin')) return;
+    try {
+      setQuota(await fetchQuota(await user.getIdToken()));
+    } catch {
+      // Purely informational; the generate request enforces the quota either way
+      setQuota(null);
+    }
+  }, [user, role]);
+
+  // Reload when a job starts or finishes
+  useEffect(() => {
+    refreshQuota();
+  }, [refreshQuota, jobId]);
+
+  // Follow the background generation job until it succeeds or fails
+  useEffect(() => {
+    if (!jobId) return;
+    const unsub = subscribeToJob(
+      jobId,
+      (next) => {
+        setJob(next);
+        if (next.status === 'succeeded' && next.result) {
+          setResult({ ...next.result, devUrl: next.result.challengeLink });
+          setJobId(null);
+          setJob(null);
+        }
+      },
+      (err) => setError(err.message || 'Lost connection to the generation job.')
+    );
+    return () => unsub();
+  }, [jobId]);
+
+  const hasJobDescription = !!jobDescFile || !!savedJdId;
+  const quotaExhausted = !!quota && QUOTA_METRICS.some((m) => quota.remaining[m] <= 0);
+  const isGenerating = isUploading || (!!jobId && (!job || job.status === 'queued' || job.status === 'running'));
+
   const handleSignOut = useCallback(async () => {
     await signOut(auth);
   }, []);
@@ -89,6 +185,7 @@ function App() {
       setResumeFile(uploadedFile);
     } else {
       setJobDescFile(uploadedFile);
+      setSavedJdId(null);
     }
     
     // Clear any previous errors
@@ -123,32 +220,71 @@ function App() {
   }, []);
 
   const submitFiles = async () => {
-    if (!resumeFile || !jobDescFile) {
-      setError('Please upload both files before generating the challenge.');
+    if (!resumeFile || !hasJobDescription) {
+      setError('Please upload a resume and a job description (or pick a saved one) before generating the challenge.');
+      return;
+    }
+    if (!user) {
+      setError('Please sign in before generating a challenge.');
       return;
     }
 
     setIsUploading(true);
     setError(null);
+    setJobId(null);
+    setJob(null);
 
     try {
       const formData = new FormData();
       formData.append('resume', resumeFile.file);
-      formData.append('job_description', jobDescFile.file);
+      if (jobDescFile) {
+        formData.append('job_description', jobDescFile.file);
+      } else if (savedJdId) {
+        formData.append('job_description_id', savedJdId);
+      }
+      if (candidateGithub.trim()) {
+        formData.append('candidate_github', candidateGithub.trim());
+      }
+      if (candidateEmail.trim()) {
+        formData.append('candidate_email', candidateEmail.trim());
+      }
+      appendGenerationOptions(formData, options);
+      if (deadlineKind === 'timeLimit') {
+        formData.append('time_limit_minutes', String(Math.round(Number(timeLimitHours) * 60)));
+      } else if (deadlineKind === 'dueDate' && dueAt) {
+        // datetime-local has no zone; send the instant the interviewer meant in their own time zone
+        formData.append('due_at', new Date(dueAt).toISOString());
+      }
 
       // Use environment variable for function URL, fallback to placeholder
       const functionUrl = import.meta.env.VITE_FUNCTION_URL || 'https://us-central1-all-your-base-3a55f.cloudfunctions.net/generateCodingChallengeV2';
+      const idToken = await user.getIdToken();
+      idempotencyKey.current ??= crypto.randomUUID();
       const response = await fetch(functionUrl, {
         method: 'POST',
+        headers: { Authorization: `Bearer ${idToken}`, 'Idempotency-Key': idempotencyKey.current },
         body: formData,
       });
+      if (response.status < 500) idempotencyKey.current = null;
 
+      if (response.status === 401) {
+        throw new Error('Your session has expired. Please sign out and sign in again.');
+      }
+      if (response.status === 403) {
+        // The role was probably changed since this token was issued
+        await refreshRole();
+      }
+      if (response.status === 429) {
+        // Over quota; the message says when it resets
+        refreshQuota();
+      }
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `HTTP error! status: ${response.status}`);
       }
 
-      const data = await response.json();
-      setResult(data);
+      const data: { jobId: string } = await response.json();
+      setJobId(data.jobId);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while generating the challenge.');
     } finally {
@@ -159,8 +295,48 @@ function App() {
   const resetForm = () => {
     setResumeFile(null);
     setJobDescFile(null);
+    setSavedJdId(null);
+    setCandidateGithub('');
+    setCandidateEmail('');
+    setDeadlineKind('none');
+    setDueAt('');
+    setOptions(DEFAULT_GENERATION_OPTIONS);
     setResult(null);
     setError(null);
+    setJobId(null);
+    setJob(null);
+    idempotencyKey.current = null;
+    setView('generate');
+  };
+
+  const openChallenge = useCallback((challenge: ChallengeRecord) => {
+    setResult({
+      challengeId: challenge.id,
+      challengeLink: challenge.devUrl,
+      githubRepo: challenge.repoUrl,
+      devUrl: challenge.devUrl,
+      markdown: challenge.markdown,
+      files: challenge.files,
+      candidateAccess: challenge.candidateAccess,
+      accessExpiresAt: challenge.candidateAccess?.expiresAt?.toDate() ?? null,
+      activity: challenge.activity,
+      submission: challenge.submission,
+      deadline: challenge.deadline,
+    });
+  }, []);
+
+  const leaveInvitation = useCallback(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete(INVITE_PARAM);
+    window.history.replaceState(null, '', url.toString());
+    setInviteToken(null);
+    // Accepting may have granted the candidate role
+    refreshRole().catch(() => {});
+  }, [refreshRole]);
+
+  const showHistory = () => {
+    setResult(null);
+    setView('history');
   };
 
   // When signed out show Login
@@ -182,7 +358,75 @@ function App() {
         >
           {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
         </button>
-        <Login />
+        <Login
+          initialMode={inviteToken ? 'signup' : 'signin'}
+          notice={inviteToken ? "You've been invited to a coding challenge. Create an account or sign in to continue." : undefined}
+        />
+      </div>
+    );
+  }
+
+  // Role-specific screens: no role yet, the candidate dashboard, and the admin panel and cost dashboard
+  const roleScreen = inviteToken ? (
+    <AcceptInvitation user={user} token={inviteToken} onDone={leaveInvitation} />
+  ) : role === undefined ? (
+    <Loader2 className={`w-8 h-8 animate-spin ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`} />
+  ) : role === null ? (
+    <AwaitingRole user={user} onRefresh={refreshRole} onSignOut={handleSignOut} />
+  ) : role === 'candidate' ? (
+    <CandidateDashboard user={user} onSignOut={handleSignOut} />
+  ) : role === 'admin' && view === 'admin' ? (
+    <AdminPanel user={user} onBack={() => setView('generate')} />
+  ) : role === 'admin' && view === 'costs' ? (
+    <CostDashboard onBack={() => setView('generate')} />
+  ) : view === 'invitations' ? (
+    <InvitationManager user={user} onBack={() => setView('generate')} onShowHistory={showHistory} />
+  ) : view === 'library' ? (
+    <JobDescriptionLibrary user={user} isAdmin={role === 'admin'} onBack={() => setView('generate')} />
+  ) : null;
+
+  if (roleScreen) {
+    return (
+      <div className={`min-h-screen flex items-center justify-center p-4 ${
+        isDarkMode 
+          ? 'bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900' 
+          : 'bg-gradient-to-br from-blue-50 via-white to-indigo-50'
+      }`}>
+        {/* Dark Mode Toggle */}
+        <button
+          onClick={toggleDarkMode}
+          className={`fixed top-4 right-4 w-10 h-10 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg z-10 ${
+            isDarkMode 
+              ? 'bg-gray-700 hover:bg-gray-600 text-yellow-400' 
+              : 'bg-white hover:bg-gray-50 text-gray-700'
+          }`}
+        >
+          {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
+        </button>
+        {roleScreen}
+      </div>
+    );
+  }
+
+  if (view === 'history' && !result) {
+    return (
+      <div className={`min-h-screen flex items-center justify-center p-4 ${
+        isDarkMode 
+          ? 'bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900' 
+          : 'bg-gradient-to-br from-blue-50 via-white to-indigo-50'
+      }`}>
+        {/* Dark Mode Toggle */}
+        <button
+          onClick={toggleDarkMode}
+          className={`fixed top-4 right-4 w-10 h-10 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg z-10 ${
+            isDarkMode 
+              ? 'bg-gray-700 hover:bg-gray-600 text-yellow-400' 
+              : 'bg-white hover:bg-gray-50 text-gray-700'
+          }`}
+        >
+          {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
+        </button>
+        <ChallengeHistory uid={user.uid} onOpen={openChallenge} onBack={() => setView('generate')} />
       </div>
     );
   }
@@ -290,6 +534,40 @@ function App() {
               </a>
             </div>
 
+            {result.candidateAccess && (
+              <CandidateAccessStatus access={result.candidateAccess} expiresAt={result.accessExpiresAt} />
+            )}
+
+            {result.markdown && (
+              <div className={`rounded-xl p-6 border ${isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-gray-50 border-gray-100'}`}>
+                <h3 className={`font-semibold flex items-center mb-4 ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                  <FileText className="w-5 h-5 mr-2" />
+                  Challenge README
+                </h3>
+                <pre className={`whitespace-pre-wrap break-words text-sm max-h-96 overflow-y-auto ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                  {result.markdown}
+                </pre>
+                {result.files && result.files.length > 0 && (
+                  <div className="mt-4">
+                    <h4 className={`text-sm font-semibold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>Starter files</h4>
+                    <ul className={`font-mono text-xs space-y-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                      {result.files.map((path) => <li key={path}>{path}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {result.deadline && <DeadlineCountdown deadline={result.deadline} />}
+
+            {(result.activity || result.submission) && (
+              <CandidateActivity activity={result.activity} submission={result.submission} />
+            )}
+
+            {result.challengeId && <AnswerKeyPanel challengeId={result.challengeId} />}
+
+            {result.challengeId && <EvaluationPanel challengeId={result.challengeId} user={user} />}
+
             {result.message && (
               <div className="bg-yellow-50 rounded-xl p-4 border border-yellow-200">
                 <p className="text-yellow-800">{result.message}</p>
@@ -339,6 +617,12 @@ function App() {
             >
               Generate Another Challenge
             </button>
+            <button
+              onClick={showHistory}
+              className={`block mx-auto mt-4 text-sm underline ${isDarkMode ? 'text-gray-300 hover:text-gray-100' : 'text-gray-600 hover:text-gray-900'}`}
+            >
+              View My Challenges
+            </button>
           </div>
         </div>
       </div>
@@ -392,6 +676,45 @@ function App() {
             Upload your resume and a job description to generate a personalized coding challenge. 
             We'll create a GitHub repository with tailored tasks based on the role requirements.
           </p>
+          <button
+            onClick={showHistory}
+            className={`absolute left-0 top-0 text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+          >
+            <History className="w-4 h-4 mr-1" />
+            My Challenges
+          </button>
+          <button
+            onClick={() => setView('invitations')}
+            className={`absolute right-0 top-10 text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+          >
+            <Mail className="w-4 h-4 mr-1" />
+            Invite Candidate
+          </button>
+          <button
+            onClick={() => setView('library')}
+            className={`absolute left-0 top-10 text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+          >
+            <BookOpen className="w-4 h-4 mr-1" />
+            Job Descriptions
+          </button>
+          {role === 'admin' && (
+            <button
+              onClick={() => setView('admin')}
+              className={`absolute left-0 top-20 text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+            >
+              <ShieldCheck className="w-4 h-4 mr-1" />
+              Admin
+            </button>
+          )}
+          {role === 'admin' && (
+            <button
+              onClick={() => setView('costs')}
+              className={`absolute right-0 top-20 text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+            >
+              <DollarSign className="w-4 h-4 mr-1" />
+              Costs
+            </button>
+          )}
           <button
             onClick={handleSignOut}
             className={`absolute right-0 top-0 text-sm px-3 py-1 rounded-md border ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
@@ -497,9 +820,104 @@ function App() {
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               />
             </div>
+            <JobDescriptionPicker
+              value={savedJdId}
+              onChange={(id) => {
+                setSavedJdId(id);
+                if (id) setJobDescFile(null);
+              }}
+            />
           </div>
         </div>
 
+        <div className="mb-8">
+          <span className={`block text-sm font-semibold mb-3 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>3. Tune the challenge</span>
+          <GenerationOptionsFields value={options} onChange={setOptions} />
+        </div>
+
+        <div className="mb-8">
+          <label htmlFor="candidate-github" className={`block text-sm font-semibold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+            Candidate GitHub username <span className="font-normal">(optional)</span>
+          </label>
+          <input
+            id="candidate-github"
+            type="text"
+            value={candidateGithub}
+            onChange={(e) => setCandidateGithub(e.target.value)}
+            placeholder="octocat"
+            className={`w-full md:w-1/2 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+              isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' : 'border-gray-300'
+            }`}
+          />
+          <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            The candidate is invited with push access to the private challenge repository only.
+          </p>
+          <label htmlFor="candidate-email" className={`block text-sm font-semibold mt-4 mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+            Candidate email <span className="font-normal">(optional)</span>
+          </label>
+          <input
+            id="candidate-email"
+            type="email"
+            value={candidateEmail}
+            onChange={(e) => setCandidateEmail(e.target.value)}
+            placeholder="candidate@example.com"
+            className={`w-full md:w-1/2 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+              isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' : 'border-gray-300'
+            }`}
+          />
+          <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            A candidate account signed in with this email sees the challenge README, links and deadline.
+          </p>
+        </div>
+
+        <div className="mb-8">
+          <span className={`block text-sm font-semibold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>Deadline</span>
+          <div className={`flex flex-wrap gap-4 text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+            {([['none', 'No deadline'], ['timeLimit', 'Time limit'], ['dueDate', 'Due date']] as const).map(([kind, label]) => (
+              <label key={kind} className="flex items-center">
+                <input
+                  type="radio"
+                  name="deadline-kind"
+                  checked={deadlineKind === kind}
+                  onChange={() => setDeadlineKind(kind)}
+                  className="mr-2"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          {deadlineKind === 'timeLimit' && (
+            <div className="mt-3 flex items-center gap-2">
+              <input
+                type="number"
+                min={0.25}
+                step={0.25}
+                value={timeLimitHours}
+                onChange={(e) => setTimeLimitHours(e.target.value)}
+                className={`w-24 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+                  isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100' : 'border-gray-300'
+                }`}
+              />
+              <span className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>hours, starting when the candidate accepts the invitation</span>
+            </div>
+          )}
+          {deadlineKind === 'dueDate' && (
+            <input
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+              className={`mt-3 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+                isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100' : 'border-gray-300'
+              }`}
+            />
+          )}
+          <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            When the deadline passes the repository is locked and the final commit is tagged.
+          </p>
+        </div>
+
+        {jobId && <GenerationProgress job={job} />}
+
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center">
             <AlertCircle className="w-5 h-5 text-red-600 mr-3" />
@@ -510,23 +928,23 @@ function App() {
         <div className="text-center">
           <button
             onClick={submitFiles}
-            disabled={!resumeFile || !jobDescFile || isUploading}
+            disabled={!resumeFile || !hasJobDescription || isGenerating}
             className="text-white px-8 py-4 rounded-xl font-semibold disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl disabled:shadow-none flex items-center justify-center mx-auto min-w-[200px]"
             style={{ 
-              backgroundColor: (!resumeFile || !jobDescFile || isUploading) ? '#9CA3AF' : '#00A287'
+              backgroundColor: (!resumeFile || !hasJobDescription || isGenerating) ? '#9CA3AF' : '#00A287'
             }}
             onMouseEnter={(e) => {
-              if (resumeFile && jobDescFile && !isUploading) {
+              if (resumeFile && hasJobDescription && !isGenerating) {
                 (e.target as HTMLButtonElement).style.backgroundColor = '#00917A';
               }
             }}
             onMouseLeave={(e) => {
-              if (resumeFile && jobDescFile && !isUploading) {
+              if (resumeFile && hasJobDescription && !isGenerating) {
                 (e.target as HTMLButtonElement).style.backgroundColor = '#00A287';
               }
             }}
           >
-            {isUploading ? (
+            {isGenerating ? (
               <>
                 <Loader2 className="w-5 h-5 mr-2 animate-spin" />
                 Generating Challenge...
@@ -540,8 +958,14 @@ function App() {
           </button>
           
           <p className={`text-xs mt-4 max-w-lg mx-auto ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-            3. Click "Generate Challenge" to create your personalized coding challenge and GitHub repository
+            4. Click "Generate Challenge" to create your personalized coding challenge and GitHub repository
           </p>
+          {quota && (
+            <p className={`text-xs mt-2 ${quotaExhausted ? 'text-amber-500' : isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Remaining today: {quota.remaining.generations} generations · {quota.remaining.tokens.toLocaleString()} tokens · {quota.remaining.repos} repos
+              {quotaExhausted && ` (resets at ${new Date(quota.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`}
+            </p>
+          )}
         </div>
 
         <div className={`mt-8 pt-6 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
@@ -0,0 +1,22 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Mirrors the interviewer-only documents written by functions/src/answerKeys.ts
+export interface AnswerKey {
+  challengeId: string;
+  hiddenBugs: {
+    file: string;
+    location: string;
+    description: string;
+    expectedFix: string;
+  }[];
+  evaluationRubric: { criterion: string; weight: number; description: string }[];
+  scoringNotes: string[];
+  testCommand: string | null;
+}
+
+// Resolves to null for challenges generated without a structured spec (README-only prompts).
+export async function fetchAnswerKey(challengeId: string): Promise<AnswerKey | null> {
+  const snap = await getDoc(doc(db, 'answerKeys', challengeId));
+  return snap.exists() ? (snap.data() as AnswerKey) : null;
+}
@@ -0,0 +1,162 @@
+import { collection, limit, onSnapshot, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { CandidateAccessSummary } from './generationJobs';
+import type { GenerationOptions } from './generationOptions';
+import type { JobDescriptionSource } from './jobDescriptions';
+
+// Structured fields from the validated challenge spec; absent for README-only prompts
+export interface ChallengeSpecSummary {
+  title: string;
+  stack: string;
+  difficulty: 'junior' | 'mid' | 'senior' | 'staff';
+  estimatedMinutes: number;
+  requirements: string[];
+  testCommand?: string;
+}
+
+// Candidate progress recorded from GitHub webhook events (functions/src/githubWebhooks.ts)
+export interface ChallengeActivity {
+  pushes: number;
+  commits: number;
+  issuesOpened?: number;
+  firstCommitAt?: Timestamp | null;
+  lastCommitAt?: Timestamp | null;
+  timeToFirstCommitMs?: number | null;
+  lastCommitSha?: string | null;
+}
+
+export interface ChallengeSubmission {
+  state: 'open' | 'merged' | 'closed';
+  pullRequestNumber: number;
+  url: string;
+  title: string;
+  headSha: string;
+  submittedAt: Timestamp | null;
+}
+
+// Deadline set at generation time (functions/src/deadlines.ts)
+export interface ChallengeDeadline {
+  kind: 'dueDate' | 'timeLimit';
+  minutes: number | null;
+  startedAt: Timestamp | null;
+  dueAt: Timestamp | null;
+  status: 'pending' | 'running' | 'locked' | 'failed';
+  lockedAt: Timestamp | null;
+  finalCommitSha: string | null;
+  finalTag: string | null;
+  outcome: 'onTime' | 'late' | 'noSubmission' | null;
+  error: string | null;
+}
+
+// Mirrors the documents written by the `saveChallenge` helper in functions/src/challenges.ts
+export interface ChallengeRecord {
+  id: string;
+  ownerUid: string;
+  inputFiles: {
+    resume: string | null;
+    jobDescription: string | null;
+  };
+  // Older records only have promptVersion ("v1"/"v2"); newer ones store "id@version" there too
+  promptTemplate?: { id: string; version: number };
+  promptVersion: string;
+  model: string;
+  markdown: string;
+  spec?: ChallengeSpecSummary | null;
+  files?: string[];
+  repoHost: string;
+  repoFullName: string;
+  repoName: string;
+  defaultBranch: string;
+  repoUrl: string;
+  branchUrl: string;
+  devUrl: string;
+  candidateAccess: (CandidateAccessSummary & { expiresAt: Timestamp }) | null;
+  candidateEmail?: string | null;
+  jobDescriptionSource?: JobDescriptionSource | null;
+  generationOptions?: GenerationOptions;
+  // Safety findings recorded when the functions run with SAFETY_MODE=flag
+  safetyFlags?: { reason: string; source: string; detail: string }[];
+  // Model tokens and cost spent generating the challenge
+  llmCost?: { calls: number; promptTokens: number; completionTokens: number; costUsd: number };
+  activity?: ChallengeActivity;
+  submission?: ChallengeSubmission | null;
+  deadline?: ChallengeDeadline | null;
+  createdAt: Timestamp | null;
+  updatedAt: Timestamp | null;
+}
+
+// Mirrors `candidateChallenges` (functions/src/challenges.ts): the part of a challenge its candidate may read
+export interface CandidateChallenge {
+  id: string;
+  candidateEmail: string;
+  markdown: string;
+  spec: Pick<ChallengeSpecSummary, 'title' | 'stack' | 'difficulty' | 'estimatedMinutes'> | null;
+  repoName: string;
+  repoFullName: string;
+  repoUrl: string;
+  branchUrl: string;
+  devUrl: string;
+  deadline: ChallengeDeadline | null;
+  createdAt: Timestamp | null;
+  updatedAt: Timestamp | null;
+}
+
+const HISTORY_LIMIT = 100;
+
+// Live list of the signed-in user's challenges, newest first.
+export function subscribeToChallenges(
+  uid: string,
+  onChange: (challenges: ChallengeRecord[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(
+    collection(db, 'challenges'),
+    where('ownerUid', '==', uid),
+    orderBy('createdAt', 'desc'),
+    limit(HISTORY_LIMIT)
+  );
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as ChallengeRecord)),
+    onError
+  );
+}
+
+// Live list of challenges assigned to a candidate by email, newest first. Rules only allow this
+// for candidates whose verified sign-in email matches.
+export function subscribeToAssignedChallenges(
+  email: string,
+  onChange: (challenges: CandidateChallenge[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(
+    collection(db, 'candidateChallenges'),
+    where('candidateEmail', '==', email.toLowerCase()),
+    orderBy('createdAt', 'desc'),
+    limit(HISTORY_LIMIT)
+  );
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as CandidateChallenge)),
+    onError
+  );
+}
+
+// Challenge title from the spec or the README heading ("# Coding Challenge: ..."), falling back to the repo name.
+export function challengeTitle(challenge: ChallengeRecord | CandidateChallenge): string {
+  if (challenge.spec?.title) return challenge.spec.title;
+  const heading = /^#\s+(.+)$/m.exec(challenge.markdown || '');
+  return heading ? heading[1].trim() : challenge.repoName;
+}
+
+export function matchesSearch(challenge: ChallengeRecord, term: string): boolean {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    challengeTitle(challenge),
+    challenge.repoName,
+    challenge.inputFiles?.resume,
+    challenge.inputFiles?.jobDescription,
+    challenge.markdown,
+  ].some((field) => field?.toLowerCase().includes(needle));
+}
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Loader2, Upload } from 'lucide-react';
+import type { User } from 'firebase/auth';
+import { useTheme } from '../theme/ThemeContext';
+import { GenerationJob, subscribeToJob } from '../generationJobs';
+import { acceptInvitation } from '../invitations';
+import GenerationProgress from './GenerationProgress';
+
+interface AcceptInvitationProps {
+  user: User;
+  token: string;
+  onDone: () => void;
+}
+
+// Candidate side of an invitation link: upload a resume to start generating their challenge, then
+// follow the job. A failed job reopens the invitation, so the candidate can try again from here.
+export default function AcceptInvitation({ user, token, onDone }: Readonly<AcceptInvitationProps>) {
+  const { isDarkMode } = useTheme();
+  const [resume, setResume] = useState<File | null>(null);
+  const [github, setGithub] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [job, setJob] = useState<GenerationJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // One key per set of inputs; a retry after a lost response picks up the job it already started
+  const idempotencyKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!jobId) return;
+    const unsub = subscribeToJob(
+      jobId,
+      setJob,
+      (err) => setError(err.message || 'Lost connection to the generation job.')
+    );
+    return () => unsub();
+  }, [jobId]);
+
+  const retry = () => {
+    // The failed job released the invitation; claiming it again needs a new request.
+    idempotencyKey.current = null;
+    setJobId(null);
+    setJob(null);
+    setError(null);
+  };
+
+  const submit = async () => {
+    if (!resume) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('token', token);
+      formData.append('resume', resume);
+      if (github.trim()) formData.append('candidate_github', github.trim());
+      idempotencyKey.current ??= crypto.randomUUID();
+      const started = await acceptInvitation(formData, await user.getIdToken(), idempotencyKey.current);
+      setJobId(started.jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept the invitation.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={`rounded-2xl shadow-2xl p-8 max-w-lg w-full border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+    }`}>
+      <h1 className={`text-2xl font-bold mb-2 text-center ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+        You're invited to a coding challenge
+      </h1>
+      {jobId ? (
+        <div className="text-center">
+          {job?.status === 'succeeded' ? (
+            <>
+              <CheckCircle className={`w-12 h-12 mx-auto my-4 ${isDarkMode ? 'text-green-400' : 'text-green-600'}`} />
+              <p className={`mb-6 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                Your challenge is ready and waiting on your dashboard.
+              </p>
+            </>
+          ) : (
+            <p className={`my-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              {job?.status === 'failed'
+                ? 'We could not generate your challenge. Your invitation is still valid, so you can try again.'
+                : 'Your challenge is being generated. It takes a minute or two.'}
+            </p>
+          )}
+          {job?.status !== 'succeeded' && <div className="text-left"><GenerationProgress job={job} /></div>}
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl flex items-center">
+              <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          {job?.status === 'failed' ? (
+            <button
+              onClick={retry}
+              className="text-white px-6 py-2 rounded-lg font-medium"
+              style={{ backgroundColor: '#00A287' }}
+            >
+              Try again
+            </button>
+          ) : (
+            <button
+              onClick={onDone}
+              className="text-white px-6 py-2 rounded-lg font-medium"
+              style={{ backgroundColor: '#00A287' }}
+            >
+              Go to my challenges
+            </button>
+          )}
+        </div>
+      ) : (
+        <>
+          <p className={`mb-6 text-center ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            Upload your resume and we'll build a challenge tailored to you and the role.
+          </p>
+          <label className={`relative block border-2 border-dashed rounded-xl p-6 text-center cursor-pointer mb-4 ${
+            isDarkMode ? 'border-gray-600 hover:border-blue-400' : 'border-gray-300 hover:border-blue-400'
+          }`}>
+            <Upload className={`w-10 h-10 mx-auto mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-400'}`} />
+            <span className={`text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+              {resume ? resume.name : 'Choose your resume (PDF, DOC, DOCX, TXT)'}
+            </span>
+            <input
+              type="file"
+              accept=".pdf,.doc,.docx,.txt"
+              onChange={(e) => {
+                setResume(e.target.files?.[0] ?? null);
+                idempotencyKey.current = null;
+              }}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            />
+          </label>
+          <label htmlFor="accept-github" className={`block text-sm font-semibold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+            GitHub username <span className="font-normal">(optional, to get push access to the repo)</span>
+          </label>
+          <input
+            id="accept-github"
+            type="text"
+            value={github}
+            onChange={(e) => {
+              setGithub(e.target.value);
+              idempotencyKey.current = null;
+            }}
+            placeholder="octocat"
+            className={`w-full mb-6 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+              isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' : 'border-gray-300'
+            }`}
+          />
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl flex items-center">
+              <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          <button
+            onClick={submit}
+            disabled={!resume || isSubmitting}
+            className="w-full text-white py-3 rounded-xl font-semibold disabled:cursor-not-allowed flex items-center justify-center"
+            style={{ backgroundColor: !resume || isSubmitting ? '#9CA3AF' : '#00A287' }}
+          >
+            {isSubmitting && <Loader2 className="w-5 h-5 mr-2 animate-spin" />}
+            Start my challenge
+          </button>
+          <button
+            onClick={onDone}
+            className={`block mx-auto mt-4 text-sm underline ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}
+          >
+            Not now
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
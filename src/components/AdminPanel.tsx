@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Loader2, ShieldCheck } from 'lucide-react';
+import type { User } from 'firebase/auth';
+import { useTheme } from '../theme/ThemeContext';
+import { QUOTA_LABELS, QUOTA_METRICS, QuotaLimits, QuotaMetric, setUserQuota } from '../quotas';
+import { Role, ROLES, setUserRole, subscribeToUsers, UserRoleRecord } from '../roles';
+
+interface AdminPanelProps {
+  user: User;
+  onBack: () => void;
+}
+
+// Admin-only: assign roles and daily quota overrides by email and review existing assignments.
+export default function AdminPanel({ user, onBack }: Readonly<AdminPanelProps>) {
+  const { isDarkMode } = useTheme();
+  const [users, setUsers] = useState<UserRoleRecord[] | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role | ''>('interviewer');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [quotaEmail, setQuotaEmail] = useState('');
+  // Blank fields keep the default for that metric
+  const [quotaFields, setQuotaFields] = useState<Record<QuotaMetric, string>>({ generations: '', tokens: '', repos: '' });
+
+  useEffect(() => {
+    const unsub = subscribeToUsers(
+      (items) => {
+        setUsers(items);
+        setError(null);
+      },
+      (err) => setError(err.message || 'Failed to load users.')
+    );
+    return () => unsub();
+  }, []);
+
+  const assign = async (targetEmail: string, nextRole: Role | null) => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await setUserRole(targetEmail.trim(), nextRole, await user.getIdToken());
+      setNotice(`${targetEmail.trim()} is now ${nextRole ?? 'without a role'}. They see the change the next time their session refreshes.`);
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the role.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveQuota = async (targetEmail: string, reset: boolean) => {
+    const limits: Partial<QuotaLimits> = {};
+    for (const metric of QUOTA_METRICS) {
+      if (quotaFields[metric].trim()) limits[metric] = Number(quotaFields[metric]);
+    }
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await setUserQuota(targetEmail.trim(), reset || !Object.keys(limits).length ? null : limits, await user.getIdToken());
+      setNotice(reset ? `${targetEmail.trim()} is back on the default daily limits.` : `Daily limits updated for ${targetEmail.trim()}.`);
+      setQuotaEmail('');
+      setQuotaFields({ generations: '', tokens: '', repos: '' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the quota.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = `rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' : 'border-gray-300'
+  }`;
+
+  return (
+    <div className={`rounded-2xl shadow-2xl p-8 max-w-4xl w-full border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+    }`}>
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onBack}
+          className={`text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <h1 className={`text-2xl font-bold flex items-center ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+          <ShieldCheck className="w-6 h-6 mr-2" />
+          Admin
+        </h1>
+        <span className="w-16" />
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (email.trim()) assign(email, role || null);
+        }}
+        className="flex flex-wrap gap-3 mb-6"
+      >
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="user@example.com"
+          className={`flex-1 min-w-[200px] ${inputClass}`}
+        />
+        <select value={role} onChange={(e) => setRole(e.target.value as Role | '')} className={inputClass}>
+          {ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+          <option value="">no role</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isSaving || !email.trim()}
+          className="text-white px-4 py-2 rounded-lg font-medium disabled:cursor-not-allowed flex items-center"
+          style={{ backgroundColor: isSaving || !email.trim() ? '#9CA3AF' : '#00A287' }}
+        >
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Assign role
+        </button>
+      </form>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (quotaEmail.trim()) saveQuota(quotaEmail, false);
+        }}
+        className="flex flex-wrap gap-3 mb-6"
+      >
+        <input
+          type="email"
+          value={quotaEmail}
+          onChange={(e) => setQuotaEmail(e.target.value)}
+          placeholder="Daily limits for user@example.com"
+          className={`flex-1 min-w-[200px] ${inputClass}`}
+        />
+        {QUOTA_METRICS.map((metric) => (
+          <input
+            key={metric}
+            type="number"
+            min={0}
+            value={quotaFields[metric]}
+            onChange={(e) => setQuotaFields({ ...quotaFields, [metric]: e.target.value })}
+            placeholder={QUOTA_LABELS[metric]}
+            aria-label={`Daily ${QUOTA_LABELS[metric]}`}
+            className={`w-28 ${inputClass}`}
+          />
+        ))}
+        <button
+          type="submit"
+          disabled={isSaving || !quotaEmail.trim()}
+          className="text-white px-4 py-2 rounded-lg font-medium disabled:cursor-not-allowed"
+          style={{ backgroundColor: isSaving || !quotaEmail.trim() ? '#9CA3AF' : '#00A287' }}
+        >
+          Set limits
+        </button>
+        <button
+          type="button"
+          disabled={isSaving || !quotaEmail.trim()}
+          onClick={() => saveQuota(quotaEmail, true)}
+          className={`px-4 py-2 rounded-lg border text-sm disabled:opacity-50 ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          Use defaults
+        </button>
+      </form>
+
+      {notice && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-xl">
+          <p className="text-green-800">{notice}</p>
+        </div>
+      )}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {users === null && !error ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className={`w-8 h-8 animate-spin ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`} />
+        </div>
+      ) : (
+        <table className={`w-full text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+          <thead>
+            <tr className={`text-left border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+              <th className="py-2">Email</th>
+              <th className="py-2">Role</th>
+              <th className="py-2">Daily limits</th>
+              <th className="py-2">Updated</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(users || []).map((u) => (
+              <tr key={u.uid} className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                <td className="py-2">{u.email}</td>
+                <td className="py-2">
+                  <select
+                    value={u.role ?? ''}
+                    disabled={isSaving || u.uid === user.uid}
+                    onChange={(e) => assign(u.email, (e.target.value || null) as Role | null)}
+                    className={`${inputClass} py-1`}
+                  >
+                    {ROLES.map((r) => <option key={r} value={r}>{r}</option>)}
+                    <option value="">no role</option>
+                  </select>
+                </td>
+                <td className={`py-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {u.quotaLimits
+                    ? QUOTA_METRICS.filter((m) => u.quotaLimits?.[m] !== undefined)
+                      .map((m) => `${u.quotaLimits?.[m]?.toLocaleString()} ${QUOTA_LABELS[m]}`)
+                      .join(' · ')
+                    : 'Default'}
+                </td>
+                <td className={`py-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {u.updatedAt ? u.updatedAt.toDate().toLocaleString() : 'Saving...'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Bug, ChevronDown, ChevronRight, KeyRound, Loader2 } from 'lucide-react';
+import { useTheme } from '../theme/ThemeContext';
+import { AnswerKey, fetchAnswerKey } from '../answerKeys';
+
+interface AnswerKeyPanelProps {
+  challengeId: string;
+}
+
+// Interviewer-only view of the planted bugs, rubric and scoring notes. Collapsed by default so
+// it is not on screen while sharing the challenge links with a candidate.
+export default function AnswerKeyPanel({ challengeId }: Readonly<AnswerKeyPanelProps>) {
+  const { isDarkMode } = useTheme();
+  const [open, setOpen] = useState(false);
+  const [answerKey, setAnswerKey] = useState<AnswerKey | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnswerKey(undefined);
+    setError(null);
+    fetchAnswerKey(challengeId)
+      .then((key) => { if (!cancelled) setAnswerKey(key); })
+      .catch((err) => { if (!cancelled) setError(err.message || 'Failed to load the answer key.'); });
+    return () => { cancelled = true; };
+  }, [challengeId]);
+
+  if (answerKey === null) return null;
+
+  const muted = isDarkMode ? 'text-gray-300' : 'text-gray-600';
+  const strong = isDarkMode ? 'text-gray-100' : 'text-gray-900';
+
+  return (
+    <div className={`rounded-xl p-6 border ${isDarkMode ? 'bg-gray-900 border-amber-700' : 'bg-amber-50 border-amber-200'}`}>
+      <button onClick={() => setOpen(!open)} className={`w-full font-semibold flex items-center ${strong}`}>
+        {open ? <ChevronDown className="w-5 h-5 mr-2" /> : <ChevronRight className="w-5 h-5 mr-2" />}
+        <KeyRound className="w-5 h-5 mr-2" />
+        Answer Key
+        <span className={`ml-auto text-xs font-normal ${muted}`}>Interviewer only</span>
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-6 text-sm">
+          {error && <p className="text-red-600">{error}</p>}
+          {answerKey === undefined && !error && (
+            <Loader2 className={`w-5 h-5 animate-spin ${muted}`} />
+          )}
+          {answerKey && (
+            <>
+              <section>
+                <h4 className={`font-semibold mb-2 ${strong}`}>Planted bugs</h4>
+                {answerKey.hiddenBugs.length === 0 ? (
+                  <p className={muted}>The model did not plant any bugs in this challenge.</p>
+                ) : (
+                  <ol className="space-y-3">
+                    {answerKey.hiddenBugs.map((bug, i) => (
+                      <li key={i} className={muted}>
+                        <p className={`flex items-center font-mono text-xs ${strong}`}>
+                          <Bug className="w-3 h-3 mr-1" />
+                          {bug.file} · {bug.location}
+                        </p>
+                        <p className="mt-1">{bug.description}</p>
+                        <p className="mt-1"><span className="font-semibold">Expected fix:</span> {bug.expectedFix}</p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+
+              <section>
+                <h4 className={`font-semibold mb-2 ${strong}`}>Rubric</h4>
+                <ul className="space-y-2">
+                  {answerKey.evaluationRubric.map((c) => (
+                    <li key={c.criterion} className={muted}>
+                      <span className={`font-semibold ${strong}`}>{c.criterion} ({c.weight}%)</span> — {c.description}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              {answerKey.scoringNotes.length > 0 && (
+                <section>
+                  <h4 className={`font-semibold mb-2 ${strong}`}>Scoring notes</h4>
+                  <ul className={`list-disc pl-5 space-y-1 ${muted}`}>
+                    {answerKey.scoringNotes.map((note, i) => <li key={i}>{note}</li>)}
+                  </ul>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Hourglass, Loader2 } from 'lucide-react';
+import type { User } from 'firebase/auth';
+import { useTheme } from '../theme/ThemeContext';
+import { setUserRole } from '../roles';
+
+interface AwaitingRoleProps {
+  user: User;
+  onRefresh: () => Promise<void>;
+  onSignOut: () => void;
+}
+
+// Shown to signed-in accounts that have no role yet; an admin has to assign one.
+export default function AwaitingRole({ user, onRefresh, onSignOut }: Readonly<AwaitingRoleProps>) {
+  const { isDarkMode } = useTheme();
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const check = async () => {
+    setIsChecking(true);
+    try {
+      await onRefresh();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // Only succeeds for addresses in the functions' BOOTSTRAP_ADMIN_EMAILS
+  const claimAdmin = async () => {
+    if (!user.email) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      await setUserRole(user.email, 'admin', await user.getIdToken());
+      await onRefresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not claim the admin role.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className={`rounded-2xl shadow-2xl p-8 max-w-md w-full border text-center ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+    }`}>
+      <Hourglass className={`w-12 h-12 mx-auto mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`} />
+      <h1 className={`text-2xl font-bold mb-2 ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>Waiting for access</h1>
+      <p className={`mb-6 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+        You are signed in as {user.email}, but your account has no role yet. Ask an admin to add you as an
+        interviewer or candidate, then check again.
+      </p>
+      <div className="flex justify-center gap-3">
+        <button
+          onClick={check}
+          disabled={isChecking}
+          className="text-white px-4 py-2 rounded-lg font-medium flex items-center"
+          style={{ backgroundColor: '#00A287' }}
+        >
+          {isChecking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Check again
+        </button>
+        <button
+          onClick={onSignOut}
+          className={`text-sm px-4 py-2 rounded-lg border ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          Sign out
+        </button>
+      </div>
+      <button
+        onClick={claimAdmin}
+        disabled={isChecking}
+        className={`mt-6 text-xs underline ${isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+      >
+        Setting up this deployment? Claim the admin role
+      </button>
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { UserCheck, UserX, Clock, AlertCircle } from 'lucide-react';
+import { CandidateAccessSummary } from '../generationJobs';
+
+interface CandidateAccessStatusProps {
+  access: CandidateAccessSummary;
+  expiresAt?: Date | null;
+}
+
+const STATE_COPY: Record<CandidateAccessSummary['state'], string> = {
+  pending: 'Invitation sent, waiting for the candidate to accept',
+  active: 'Candidate has push access',
+  revoked: 'Access revoked',
+  failed: 'Invitation failed',
+  unsupported: 'This repository host does not support invitations',
+};
+
+// Invitation state for the candidate's collaborator access to the challenge repo.
+export default function CandidateAccessStatus({ access, expiresAt }: Readonly<CandidateAccessStatusProps>) {
+  const tone = access.state === 'active'
+    ? 'bg-green-50 border-green-200 text-green-800'
+    : access.state === 'pending'
+      ? 'bg-blue-50 border-blue-200 text-blue-800'
+      : access.state === 'revoked'
+        ? 'bg-gray-50 border-gray-200 text-gray-700'
+        : 'bg-yellow-50 border-yellow-200 text-yellow-800';
+  const Icon = access.state === 'active'
+    ? UserCheck
+    : access.state === 'pending'
+      ? Clock
+      : access.state === 'revoked'
+        ? UserX
+        : AlertCircle;
+
+  return (
+    <div className={`rounded-xl p-4 border flex items-start ${tone}`}>
+      <Icon className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0" />
+      <div className="text-sm">
+        <p className="font-semibold">@{access.username}</p>
+        <p>{STATE_COPY[access.state]}</p>
+        {access.error && <p className="mt-1 text-xs">{access.error}</p>}
+        {expiresAt && access.state !== 'revoked' && (
+          <p className="mt-1 text-xs">Access ends {expiresAt.toLocaleString()}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { GitCommit, GitPullRequest } from 'lucide-react';
+import { useTheme } from '../theme/ThemeContext';
+import { ChallengeActivity, ChallengeSubmission } from '../challenges';
+
+interface CandidateActivityProps {
+  activity?: ChallengeActivity;
+  submission?: ChallengeSubmission | null;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = minutes / 60;
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} days`;
+}
+
+// Candidate progress reported by the GitHub webhook: commits so far and the submission pull request.
+export default function CandidateActivity({ activity, submission }: Readonly<CandidateActivityProps>) {
+  const { isDarkMode } = useTheme();
+  const muted = isDarkMode ? 'text-gray-300' : 'text-gray-600';
+  const strong = isDarkMode ? 'text-gray-100' : 'text-gray-900';
+
+  return (
+    <div className={`rounded-xl p-6 border text-sm ${isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-gray-50 border-gray-100'}`}>
+      <h3 className={`font-semibold flex items-center mb-3 ${strong}`}>
+        <GitCommit className="w-5 h-5 mr-2" />
+        Candidate Activity
+      </h3>
+      {activity && activity.commits > 0 ? (
+        <ul className={`space-y-1 ${muted}`}>
+          <li>{activity.commits} commit{activity.commits === 1 ? '' : 's'} in {activity.pushes} push{activity.pushes === 1 ? '' : 'es'}</li>
+          {activity.timeToFirstCommitMs != null && (
+            <li>First commit {formatDuration(activity.timeToFirstCommitMs)} after the challenge was created</li>
+          )}
+          {activity.lastCommitAt && <li>Last commit {activity.lastCommitAt.toDate().toLocaleString()}</li>}
+          {!!activity.issuesOpened && <li>{activity.issuesOpened} issue{activity.issuesOpened === 1 ? '' : 's'} opened</li>}
+        </ul>
+      ) : (
+        <p className={muted}>No commits from the candidate yet.</p>
+      )}
+      {submission && (
+        <p className={`mt-3 flex items-center ${strong}`}>
+          <GitPullRequest className="w-4 h-4 mr-2" />
+          <a href={submission.url} target="_blank" rel="noopener noreferrer" className="underline">
+            #{submission.pullRequestNumber} {submission.title}
+          </a>
+          <span className={`ml-2 text-xs ${muted}`}>
+            {submission.state === 'open' ? 'submitted' : submission.state}
+            {submission.submittedAt ? ` ${submission.submittedAt.toDate().toLocaleString()}` : ''}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink, FileText, Github, Loader2 } from 'lucide-react';
+import type { User } from 'firebase/auth';
+import { useTheme } from '../theme/ThemeContext';
+import { CandidateChallenge, challengeTitle, subscribeToAssignedChallenges } from '../challenges';
+import DeadlineCountdown from './DeadlineCountdown';
+
+interface CandidateDashboardProps {
+  user: User;
+  onSignOut: () => void;
+}
+
+// The candidate's view: challenges assigned to their email with the README, repo links and deadline,
+// read from their copy in candidateChallenges. Everything else about a challenge stays interviewer-only.
+export default function CandidateDashboard({ user, onSignOut }: Readonly<CandidateDashboardProps>) {
+  const { isDarkMode } = useTheme();
+  const [challenges, setChallenges] = useState<CandidateChallenge[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user.email) return;
+    const unsub = subscribeToAssignedChallenges(
+      user.email,
+      (items) => {
+        setChallenges(items);
+        setError(null);
+        setOpenId((current) => current ?? items[0]?.id ?? null);
+      },
+      (err) => setError(err.message || 'Failed to load your challenges.')
+    );
+    return () => unsub();
+  }, [user.email]);
+
+  return (
+    <div className={`rounded-2xl shadow-2xl p-8 max-w-4xl w-full border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+    }`}>
+      <div className="flex items-center justify-between mb-6">
+        <span className="w-20" />
+        <h1 className={`text-2xl font-bold ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>Your Coding Challenges</h1>
+        <button
+          onClick={onSignOut}
+          className={`text-sm px-3 py-1 rounded-md border ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          Sign out
+        </button>
+      </div>
+
+      {!user.emailVerified && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-xl">
+          <p className="text-yellow-800">Verify your email address to see the challenges assigned to you.</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {challenges === null && !error ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className={`w-8 h-8 animate-spin ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`} />
+        </div>
+      ) : !challenges?.length ? (
+        <p className={`text-center py-12 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          No challenges have been assigned to {user.email} yet.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {challenges.map((challenge) => {
+            const isOpen = openId === challenge.id;
+            return (
+              <li key={challenge.id} className={`rounded-xl border ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                <button
+                  onClick={() => setOpenId(isOpen ? null : challenge.id)}
+                  className={`w-full text-left p-4 flex items-center justify-between rounded-xl transition-colors ${
+                    isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span className={`font-semibold flex items-center ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                    {isOpen ? <ChevronDown className="w-4 h-4 mr-2" /> : <ChevronRight className="w-4 h-4 mr-2" />}
+                    {challengeTitle(challenge)}
+                  </span>
+                  {challenge.spec && (
+                    <span className={`text-xs capitalize ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {challenge.spec.difficulty} · {challenge.spec.estimatedMinutes} min
+                    </span>
+                  )}
+                </button>
+                {isOpen && (
+                  <div className="px-4 pb-4 space-y-4">
+                    {challenge.deadline && <DeadlineCountdown deadline={challenge.deadline} />}
+                    <div className={`flex flex-wrap gap-4 text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                      <a href={challenge.devUrl} target="_blank" rel="noopener noreferrer" className="flex items-center underline">
+                        <ExternalLink className="w-4 h-4 mr-1" />
+                        Open in browser IDE
+                      </a>
+                      <a href={challenge.repoUrl} target="_blank" rel="noopener noreferrer" className="flex items-center underline">
+                        <Github className="w-4 h-4 mr-1" />
+                        {challenge.repoFullName}
+                      </a>
+                    </div>
+                    <div className={`rounded-xl p-4 border ${isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-gray-50 border-gray-100'}`}>
+                      <h3 className={`font-semibold flex items-center mb-3 ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                        <FileText className="w-5 h-5 mr-2" />
+                        README
+                      </h3>
+                      <pre className={`whitespace-pre-wrap break-words text-sm max-h-96 overflow-y-auto ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                        {challenge.markdown}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, FileText, Github, Loader2, Search, ShieldAlert } from 'lucide-react';
+import { useTheme } from '../theme/ThemeContext';
+import { ChallengeRecord, challengeTitle, matchesSearch, subscribeToChallenges } from '../challenges';
+import { FOCUS_AREA_LABELS } from '../generationOptions';
+import { formatUsd } from '../llmCosts';
+
+interface ChallengeHistoryProps {
+  uid: string;
+  onOpen: (challenge: ChallengeRecord) => void;
+  onBack: () => void;
+}
+
+export default function ChallengeHistory({ uid, onOpen, onBack }: Readonly<ChallengeHistoryProps>) {
+  const { isDarkMode } = useTheme();
+  const [challenges, setChallenges] = useState<ChallengeRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    const unsub = subscribeToChallenges(
+      uid,
+      (items) => {
+        setChallenges(items);
+        setError(null);
+      },
+      (err) => setError(err.message || 'Failed to load your challenges.')
+    );
+    return () => unsub();
+  }, [uid]);
+
+  const filtered = useMemo(
+    () => (challenges || []).filter((c) => matchesSearch(c, search)),
+    [challenges, search]
+  );
+
+  return (
+    <div className={`rounded-2xl shadow-2xl p-8 max-w-4xl w-full border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+    }`}>
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onBack}
+          className={`text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <h1 className={`text-2xl font-bold ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>My Challenges</h1>
+        <span className="w-16" />
+      </div>
+
+      <div className="relative mb-6">
+        <Search className={`w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by title, repository or file name"
+          className={`w-full rounded-lg pl-9 pr-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+            isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-300' : 'border-gray-300'
+          }`}
+        />
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {challenges === null && !error ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className={`w-8 h-8 animate-spin ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`} />
+        </div>
+      ) : filtered.length === 0 ? (
+        <p className={`text-center py-12 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          {search ? 'No challenges match your search.' : "You haven't generated any challenges yet."}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {filtered.map((challenge) => (
+            <li key={challenge.id}>
+              <button
+                onClick={() => onOpen(challenge)}
+                className={`w-full text-left rounded-xl p-4 border transition-colors ${
+                  isDarkMode ? 'border-gray-700 hover:bg-gray-700' : 'border-gray-100 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <h3 className={`font-semibold ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>{challengeTitle(challenge)}</h3>
+                  <span className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {challenge.createdAt ? challenge.createdAt.toDate().toLocaleString() : 'Saving...'}
+                  </span>
+                </div>
+                <div className={`mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                  <span className="flex items-center">
+                    <FileText className="w-3 h-3 mr-1" />
+                    {challenge.inputFiles?.resume || 'resume'} · {challenge.jobDescriptionSource
+                      ? `${challenge.jobDescriptionSource.title} (library v${challenge.jobDescriptionSource.version})`
+                      : challenge.inputFiles?.jobDescription || 'job description'}
+                  </span>
+                  <span className="flex items-center">
+                    <Github className="w-3 h-3 mr-1" />
+                    {challenge.repoName}
+                  </span>
+                  {challenge.spec && (
+                    <span className="capitalize">{challenge.spec.difficulty} · {challenge.spec.estimatedMinutes} min</span>
+                  )}
+                  {!!challenge.generationOptions?.focusAreas.length && (
+                    <span>Focus: {challenge.generationOptions.focusAreas.map((a) => FOCUS_AREA_LABELS[a]).join(', ')}</span>
+                  )}
+                  <span>{challenge.promptVersion} / {challenge.model}</span>
+                  {challenge.llmCost && (
+                    <span title={`${challenge.llmCost.calls} model calls`}>
+                      {(challenge.llmCost.promptTokens + challenge.llmCost.completionTokens).toLocaleString()} tokens · {formatUsd(challenge.llmCost.costUsd)}
+                    </span>
+                  )}
+                  {!!challenge.safetyFlags?.length && (
+                    <span className="flex items-center text-amber-500" title={challenge.safetyFlags.map((f) => `${f.source}: ${f.detail}`).join('\n')}>
+                      <ShieldAlert className="w-3 h-3 mr-1" />
+                      Flagged: {[...new Set(challenge.safetyFlags.map((f) => f.reason))].join(', ')}
+                    </span>
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
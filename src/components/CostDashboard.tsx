@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Download, DollarSign, Loader2 } from 'lucide-react';
+import { useTheme } from '../theme/ThemeContext';
+import {
+  fetchLlmCalls,
+  formatUsd,
+  llmCallsToCsv,
+  LlmUsageRollup,
+  subscribeToMonthlyUsage,
+  subscribeToUsageBreakdown,
+} from '../llmCosts';
+import { subscribeToUsers } from '../roles';
+
+interface CostDashboardProps {
+  onBack: () => void;
+}
+
+// Admin-only: model token usage and cost per month, per user and per job description.
+export default function CostDashboard({ onBack }: Readonly<CostDashboardProps>) {
+  const { isDarkMode } = useTheme();
+  const [months, setMonths] = useState<LlmUsageRollup[] | null>(null);
+  const [month, setMonth] = useState<string | null>(null);
+  const [breakdown, setBreakdown] = useState<LlmUsageRollup[]>([]);
+  const [emails, setEmails] = useState<Record<string, string>>({});
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubMonths = subscribeToMonthlyUsage(
+      (items) => {
+        setMonths(items);
+        setMonth((current) => current ?? items[0]?.month ?? null);
+      },
+      (err) => setError(err.message || 'Failed to load usage.')
+    );
+    const unsubUsers = subscribeToUsers(
+      (users) => setEmails(Object.fromEntries(users.map((u) => [u.uid, u.email]))),
+      () => {/* emails are a nicety; uids still show */}
+    );
+    return () => {
+      unsubMonths();
+      unsubUsers();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!month) return;
+    const unsub = subscribeToUsageBreakdown(
+      month,
+      setBreakdown,
+      (err) => setError(err.message || 'Failed to load the monthly breakdown.')
+    );
+    return () => unsub();
+  }, [month]);
+
+  const total = useMemo(() => months?.find((m) => m.month === month) ?? null, [months, month]);
+  const byUser = breakdown.filter((r) => r.scope === 'user');
+  const byJobDescription = breakdown.filter((r) => r.scope === 'jobDescription');
+
+  const exportCsv = async () => {
+    if (!month) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const csv = llmCallsToCsv(await fetchLlmCalls(month), emails);
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `llm-calls-${month}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the calls.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const rowClass = `border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`;
+  const renderTable = (heading: string, rows: LlmUsageRollup[], label: (row: LlmUsageRollup) => string) => (
+    <div className="mb-8">
+      <h2 className={`text-lg font-semibold mb-2 ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>{heading}</h2>
+      {rows.length === 0 ? (
+        <p className={`text-sm ${mutedClass}`}>No calls this month.</p>
+      ) : (
+        <table className={`w-full text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+          <thead>
+            <tr className={`text-left ${rowClass}`}>
+              <th className="py-2">Name</th>
+              <th className="py-2 text-right">Calls</th>
+              <th className="py-2 text-right">Prompt tokens</th>
+              <th className="py-2 text-right">Completion tokens</th>
+              <th className="py-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.id} className={rowClass}>
+                <td className="py-2">{label(row)}</td>
+                <td className="py-2 text-right">{row.calls}</td>
+                <td className="py-2 text-right">{row.promptTokens.toLocaleString()}</td>
+                <td className="py-2 text-right">{row.completionTokens.toLocaleString()}</td>
+                <td className="py-2 text-right">
+                  {formatUsd(row.costUsd)}
+                  {row.unpricedCalls > 0 && <span className={`ml-1 text-xs ${mutedClass}`} title="Calls to models missing from the price table">+{row.unpricedCalls} unpriced</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={`rounded-2xl shadow-2xl p-8 max-w-4xl w-full border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+    }`}>
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onBack}
+          className={`text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <h1 className={`text-2xl font-bold flex items-center ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+          <DollarSign className="w-6 h-6 mr-1" />
+          Model Costs
+        </h1>
+        <button
+          onClick={exportCsv}
+          disabled={!month || isExporting}
+          className="text-white text-sm px-3 py-1 rounded-md font-medium disabled:cursor-not-allowed flex items-center"
+          style={{ backgroundColor: !month || isExporting ? '#9CA3AF' : '#00A287' }}
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+          Export CSV
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {months === null && !error ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className={`w-8 h-8 animate-spin ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`} />
+        </div>
+      ) : !months?.length ? (
+        <p className={`text-center py-12 ${mutedClass}`}>No model calls have been recorded yet.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-4 mb-8">
+            <select
+              value={month ?? ''}
+              onChange={(e) => setMonth(e.target.value)}
+              className={`rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+                isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100' : 'border-gray-300'
+              }`}
+            >
+              {months.map((m) => <option key={m.id} value={m.month}>{m.month}</option>)}
+            </select>
+            {total && (
+              <p className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>
+                <span className="text-2xl font-bold">{formatUsd(total.costUsd)}</span>
+                <span className={`ml-2 text-sm ${mutedClass}`}>
+                  {total.calls} calls · {(total.promptTokens + total.completionTokens).toLocaleString()} tokens
+                </span>
+              </p>
+            )}
+          </div>
+          {renderTable('By user', byUser, (row) => emails[row.key] ?? row.key)}
+          {renderTable('By job description', byJobDescription, (row) => row.title ?? row.key)}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Lock, Timer } from 'lucide-react';
+import { ChallengeDeadline } from '../challenges';
+
+interface DeadlineCountdownProps {
+  deadline: ChallengeDeadline;
+}
+
+const OUTCOME_COPY: Record<NonNullable<ChallengeDeadline['outcome']>, string> = {
+  onTime: 'Submitted on time',
+  late: 'Submitted late',
+  noSubmission: 'No submission',
+};
+
+function formatRemaining(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const clock = [hours, minutes, seconds].map((n) => String(n).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+function formatLimit(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} minutes`;
+}
+
+// Live countdown to the challenge deadline, then the lock outcome once the repo is locked.
+export default function DeadlineCountdown({ deadline }: Readonly<DeadlineCountdownProps>) {
+  const [now, setNow] = useState(() => Date.now());
+  const running = deadline.status === 'running' && !!deadline.dueAt;
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  if (deadline.status === 'locked' || deadline.status === 'failed') {
+    return (
+      <div className="rounded-xl p-4 border flex items-start bg-gray-50 border-gray-200 text-gray-700">
+        <Lock className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0" />
+        <div className="text-sm">
+          {deadline.status === 'locked' ? (
+            <>
+              <p className="font-semibold">{deadline.outcome ? OUTCOME_COPY[deadline.outcome] : 'Locked'}</p>
+              <p>
+                Repository locked {deadline.lockedAt?.toDate().toLocaleString()}
+                {deadline.finalCommitSha && <> · final commit <span className="font-mono">{deadline.finalCommitSha.slice(0, 7)}</span> tagged {deadline.finalTag}</>}
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="font-semibold">Deadline passed, but locking the repository failed</p>
+              {deadline.error && <p className="text-xs mt-1">{deadline.error}</p>}
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const dueAt = deadline.dueAt?.toDate();
+  const remaining = dueAt ? dueAt.getTime() - now : null;
+  const overdue = remaining !== null && remaining <= 0;
+
+  return (
+    <div className={`rounded-xl p-4 border flex items-start ${overdue ? 'bg-red-50 border-red-200 text-red-800' : 'bg-blue-50 border-blue-200 text-blue-800'}`}>
+      <Timer className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0" />
+      <div className="text-sm">
+        {remaining === null ? (
+          <p>
+            <span className="font-semibold">{formatLimit(deadline.minutes ?? 0)} time limit</span>, starting when the candidate accepts the invitation
+          </p>
+        ) : (
+          <>
+            <p className="font-semibold font-mono text-lg">{overdue ? 'Time is up' : formatRemaining(remaining)}</p>
+            <p>{overdue ? 'The repository will be locked shortly.' : `Due ${dueAt?.toLocaleString()}`}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, ClipboardCheck, Loader2, XCircle } from 'lucide-react';
+import type { User } from 'firebase/auth';
+import { useTheme } from '../theme/ThemeContext';
+import { Evaluation, requestEvaluation, subscribeToEvaluations } from '../evaluations';
+
+interface EvaluationPanelProps {
+  challengeId: string;
+  user: User;
+}
+
+// Runs the automated evaluation of the candidate's branch and shows the latest report.
+export default function EvaluationPanel({ challengeId, user }: Readonly<EvaluationPanelProps>) {
+  const { isDarkMode } = useTheme();
+  const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  useEffect(() => {
+    const unsub = subscribeToEvaluations(
+      challengeId,
+      user.uid,
+      setEvaluations,
+      (err) => setError(err.message || 'Failed to load evaluations.')
+    );
+    return () => unsub();
+  }, [challengeId, user.uid]);
+
+  const latest = evaluations[0];
+  const running = isRequesting || latest?.status === 'running';
+
+  const evaluate = async () => {
+    setIsRequesting(true);
+    setError(null);
+    try {
+      await requestEvaluation(challengeId, await user.getIdToken());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Evaluation failed.');
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const muted = isDarkMode ? 'text-gray-300' : 'text-gray-600';
+  const strong = isDarkMode ? 'text-gray-100' : 'text-gray-900';
+  const report = latest?.report;
+
+  return (
+    <div className={`rounded-xl p-6 border ${isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-gray-50 border-gray-100'}`}>
+      <div className="flex items-center justify-between">
+        <h3 className={`font-semibold flex items-center ${strong}`}>
+          <ClipboardCheck className="w-5 h-5 mr-2" />
+          Submission Evaluation
+        </h3>
+        <button
+          onClick={evaluate}
+          disabled={running}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-100 text-blue-700 border border-blue-200 hover:bg-blue-200 disabled:opacity-60 flex items-center"
+        >
+          {running && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {running ? 'Evaluating...' : latest ? 'Re-evaluate' : 'Evaluate submission'}
+        </button>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      {latest?.status === 'failed' && latest.error && !error && (
+        <p className="mt-4 text-sm text-red-600">{latest.error.message}</p>
+      )}
+
+      {report && (
+        <div className="mt-4 space-y-5 text-sm">
+          <div className="flex items-baseline">
+            <span className={`text-3xl font-bold ${strong}`}>{report.overallScore}</span>
+            <span className={`ml-1 ${muted}`}>/ 100</span>
+            <span className={`ml-auto text-xs ${muted}`}>
+              {latest.createdAt ? latest.createdAt.toDate().toLocaleString() : ''} · {report.model}
+            </span>
+          </div>
+          <p className={muted}>{report.summary}</p>
+
+          <p className={`text-xs ${muted}`}>
+            {report.diff.commits} commit{report.diff.commits === 1 ? '' : 's'} · {report.diff.filesChanged} files changed
+            (+{report.diff.insertions} / -{report.diff.deletions}){report.diff.truncated ? ' · diff truncated for scoring' : ''}
+          </p>
+
+          <section>
+            <h4 className={`font-semibold mb-2 ${strong}`}>Rubric</h4>
+            <ul className="space-y-3">
+              {report.criteria.map((c) => (
+                <li key={c.criterion}>
+                  <p className={strong}>
+                    <span className="font-semibold">{c.criterion}</span> — {c.score}/100 <span className={muted}>(weight {c.weight}%)</span>
+                  </p>
+                  <ul className={`list-disc pl-5 mt-1 ${muted}`}>
+                    {c.evidence.map((e, i) => <li key={i}>{e}</li>)}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          {report.hiddenBugs.length > 0 && (
+            <section>
+              <h4 className={`font-semibold mb-2 ${strong}`}>Hidden bugs</h4>
+              <ul className="space-y-2">
+                {report.hiddenBugs.map((bug, i) => (
+                  <li key={i} className={`flex items-start ${muted}`}>
+                    {bug.fixed
+                      ? <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                      : <XCircle className="w-4 h-4 mr-2 mt-0.5 text-red-500 flex-shrink-0" />}
+                    <span>
+                      <span className="font-mono text-xs">{bug.file} · {bug.location}</span> — {bug.evidence}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {report.tests && (
+            <section>
+              <h4 className={`font-semibold mb-2 ${strong}`}>
+                Tests: {report.tests.run.timedOut ? 'timed out' : report.tests.run.exitCode === 0 ? 'passed' : 'failed'}
+              </h4>
+              <pre className={`whitespace-pre-wrap break-words text-xs max-h-64 overflow-y-auto rounded-lg p-3 ${isDarkMode ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'}`}>
+                $ {report.tests.run.command}{'\n'}{report.tests.run.output}
+              </pre>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useTheme } from '../theme/ThemeContext';
+import {
+  DIFFICULTIES,
+  Difficulty,
+  FOCUS_AREA_LABELS,
+  FOCUS_AREAS,
+  GenerationOptions,
+} from '../generationOptions';
+
+interface GenerationOptionsFieldsProps {
+  value: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+}
+
+const DURATION_CHOICES = [30, 60, 90, 120, 180, 240, 360, 480];
+
+// Difficulty, duration, resume/JD weighting, focus areas and bug seeding for a generation.
+export default function GenerationOptionsFields({ value, onChange }: Readonly<GenerationOptionsFieldsProps>) {
+  const { isDarkMode } = useTheme();
+  const labelClass = `block text-sm font-semibold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`;
+  const inputClass = `w-full rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100' : 'border-gray-300'
+  }`;
+  const textClass = `text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`;
+
+  const toggleFocus = (area: (typeof FOCUS_AREAS)[number]) => {
+    const focusAreas = value.focusAreas.includes(area)
+      ? value.focusAreas.filter((a) => a !== area)
+      : [...value.focusAreas, area];
+    onChange({ ...value, focusAreas });
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="option-difficulty" className={labelClass}>Difficulty</label>
+        <select
+          id="option-difficulty"
+          value={value.difficulty ?? ''}
+          onChange={(e) => onChange({ ...value, difficulty: (e.target.value || null) as Difficulty | null })}
+          className={`${inputClass} capitalize`}
+        >
+          <option value="">Match the job description</option>
+          {DIFFICULTIES.map((d) => <option key={d} value={d}>{d}</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="option-duration" className={labelClass}>Target duration</label>
+        <select
+          id="option-duration"
+          value={value.durationMinutes ?? ''}
+          onChange={(e) => onChange({ ...value, durationMinutes: e.target.value ? Number(e.target.value) : null })}
+          className={inputClass}
+        >
+          <option value="">Let the model decide</option>
+          {DURATION_CHOICES.map((m) => (
+            <option key={m} value={m}>{m < 60 ? `${m} minutes` : `${m / 60} hour${m === 60 ? '' : 's'}`}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="option-weight" className={labelClass}>
+          Based on {value.resumeWeight}% resume / {100 - value.resumeWeight}% job description
+        </label>
+        <input
+          id="option-weight"
+          type="range"
+          min={0}
+          max={100}
+          step={10}
+          value={value.resumeWeight}
+          onChange={(e) => onChange({ ...value, resumeWeight: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+      <div>
+        <span className={labelClass}>Focus areas</span>
+        <div className="flex flex-wrap gap-3">
+          {FOCUS_AREAS.map((area) => (
+            <label key={area} className={`flex items-center ${textClass}`}>
+              <input
+                type="checkbox"
+                checked={value.focusAreas.includes(area)}
+                onChange={() => toggleFocus(area)}
+                className="mr-1"
+              />
+              {FOCUS_AREA_LABELS[area]}
+            </label>
+          ))}
+        </div>
+      </div>
+      <label className={`flex items-center md:col-span-2 ${textClass}`}>
+        <input
+          type="checkbox"
+          checked={value.seedBugs}
+          onChange={(e) => onChange({ ...value, seedBugs: e.target.checked })}
+          className="mr-2"
+        />
+        Plant hidden bugs in the starter code (listed in the interviewer-only answer key)
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { AlertCircle, CheckCircle, Circle, Loader2 } from 'lucide-react';
+import { useTheme } from '../theme/ThemeContext';
+import { GenerationJob, JOB_STAGES, STAGE_LABELS, StageStatus } from '../generationJobs';
+
+interface GenerationProgressProps {
+  job: GenerationJob | null;
+}
+
+function StageIcon({ status }: Readonly<{ status: StageStatus }>) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />;
+    case 'succeeded':
+      return <CheckCircle className="w-5 h-5 text-green-600" />;
+    case 'failed':
+      return <AlertCircle className="w-5 h-5 text-red-600" />;
+    default:
+      return <Circle className="w-5 h-5 text-gray-400" />;
+  }
+}
+
+// Step-by-step tracker for a background generation job.
+export default function GenerationProgress({ job }: Readonly<GenerationProgressProps>) {
+  const { isDarkMode } = useTheme();
+
+  return (
+    <div className={`mb-6 rounded-xl p-6 border ${isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-gray-50 border-gray-100'}`}>
+      <ol className="space-y-3">
+        {JOB_STAGES.map((stage) => {
+          const status: StageStatus = job?.stages?.[stage]?.status || 'pending';
+          if (status === 'skipped') return null;
+          return (
+            <li key={stage} className="flex items-center">
+              <StageIcon status={status} />
+              <span className={`ml-3 text-sm ${
+                status === 'pending'
+                  ? isDarkMode ? 'text-gray-500' : 'text-gray-400'
+                  : isDarkMode ? 'text-gray-100' : 'text-gray-900'
+              } ${status === 'running' ? 'font-semibold' : ''}`}>
+                {STAGE_LABELS[stage]}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+      {job?.status === 'failed' && job.error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-xl flex items-start">
+          <AlertCircle className="w-5 h-5 text-red-600 mr-3 mt-0.5" />
+          <div>
+            <p className="text-red-800 font-medium">
+              {job.error.stage ? `${STAGE_LABELS[job.error.stage]} failed` : 'Generation failed'}
+            </p>
+            <p className="text-red-700 text-sm">{job.error.message}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Copy, Link as LinkIcon, Loader2, Mail } from 'lucide-react';
+import type { User } from 'firebase/auth';
+import { useTheme } from '../theme/ThemeContext';
+import GenerationOptionsFields from './GenerationOptionsFields';
+import JobDescriptionPicker from './JobDescriptionPicker';
+import { appendGenerationOptions, DEFAULT_GENERATION_OPTIONS, GenerationOptions } from '../generationOptions';
+import { createInvitation, Invitation, invitationLink, subscribeToInvitations } from '../invitations';
+
+interface InvitationManagerProps {
+  user: User;
+  onBack: () => void;
+  onShowHistory: () => void;
+}
+
+function invitationState(invitation: Invitation): string {
+  if (invitation.challengeId) return 'Challenge generated';
+  if (invitation.status === 'accepted') return 'Accepted, generating';
+  return invitation.expiresAt.toMillis() <= Date.now() ? 'Expired' : 'Waiting for candidate';
+}
+
+// Interviewer side of the invitation flow: upload a job description, get a single-use link.
+export default function InvitationManager({ user, onBack, onShowHistory }: Readonly<InvitationManagerProps>) {
+  const { isDarkMode } = useTheme();
+  const [jobDescription, setJobDescription] = useState<File | null>(null);
+  const [savedJdId, setSavedJdId] = useState<string | null>(null);
+  const [candidateEmail, setCandidateEmail] = useState('');
+  const [timeLimitHours, setTimeLimitHours] = useState('');
+  const [options, setOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [isCreating, setIsCreating] = useState(false);
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [invitations, setInvitations] = useState<Invitation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsub = subscribeToInvitations(
+      user.uid,
+      setInvitations,
+      (err) => setError(err.message || 'Failed to load your invitations.')
+    );
+    return () => unsub();
+  }, [user.uid]);
+
+  const create = async () => {
+    if (!jobDescription && !savedJdId) return;
+    setIsCreating(true);
+    setError(null);
+    setLink(null);
+    try {
+      const formData = new FormData();
+      if (jobDescription) formData.append('job_description', jobDescription);
+      else if (savedJdId) formData.append('job_description_id', savedJdId);
+      if (candidateEmail.trim()) formData.append('candidate_email', candidateEmail.trim());
+      appendGenerationOptions(formData, options);
+      if (timeLimitHours.trim()) formData.append('time_limit_minutes', String(Math.round(Number(timeLimitHours) * 60)));
+      const { token } = await createInvitation(formData, await user.getIdToken());
+      // The token is never stored in readable form, so this is the only time the link is shown
+      setLink(invitationLink(token));
+      setJobDescription(null);
+      setSavedJdId(null);
+      setCandidateEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the invitation.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const inputClass = `rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' : 'border-gray-300'
+  }`;
+  const labelClass = `block text-sm font-semibold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`;
+
+  return (
+    <div className={`rounded-2xl shadow-2xl p-8 max-w-4xl w-full border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+    }`}>
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onBack}
+          className={`text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <h1 className={`text-2xl font-bold flex items-center ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+          <Mail className="w-6 h-6 mr-2" />
+          Invite Candidate
+        </h1>
+        <span className="w-16" />
+      </div>
+
+      <p className={`mb-6 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+        The candidate opens the link, signs in and uploads their own resume. Generation starts right away and the
+        challenge appears in your history. Links work once.
+      </p>
+
+      <div className="grid md:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label htmlFor="invite-jd" className={labelClass}>Job description</label>
+          <input
+            id="invite-jd"
+            type="file"
+            accept=".pdf,.doc,.docx,.txt"
+            onChange={(e) => {
+              setJobDescription(e.target.files?.[0] ?? null);
+              setSavedJdId(null);
+            }}
+            className={`w-full text-sm mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}
+          />
+          <JobDescriptionPicker value={savedJdId} onChange={setSavedJdId} />
+        </div>
+        <div>
+          <label htmlFor="invite-email" className={labelClass}>Candidate email <span className="font-normal">(optional)</span></label>
+          <input
+            id="invite-email"
+            type="email"
+            value={candidateEmail}
+            onChange={(e) => setCandidateEmail(e.target.value)}
+            placeholder="Only this account can accept"
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+        <div>
+          <label htmlFor="invite-limit" className={labelClass}>Time limit in hours <span className="font-normal">(optional)</span></label>
+          <input
+            id="invite-limit"
+            type="number"
+            min={0.25}
+            step={0.25}
+            value={timeLimitHours}
+            onChange={(e) => setTimeLimitHours(e.target.value)}
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <GenerationOptionsFields value={options} onChange={setOptions} />
+      </div>
+
+      <button
+        onClick={create}
+        disabled={(!jobDescription && !savedJdId) || isCreating}
+        className="text-white px-6 py-2 rounded-lg font-medium disabled:cursor-not-allowed flex items-center mb-6"
+        style={{ backgroundColor: (!jobDescription && !savedJdId) || isCreating ? '#9CA3AF' : '#00A287' }}
+      >
+        {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LinkIcon className="w-4 h-4 mr-2" />}
+        Create invitation link
+      </button>
+
+      {link && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-xl">
+          <p className="text-green-800 text-sm mb-2">Send this link to the candidate. It is only shown once.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs break-all text-gray-800">{link}</code>
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(link);
+                setCopied(true);
+                setTimeout(() => setCopied(false), 2000);
+              }}
+              className="px-3 py-1 rounded-lg text-sm bg-green-100 text-green-700 border border-green-200 flex items-center"
+            >
+              <Copy className="w-4 h-4 mr-1" />
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {invitations === null && !error ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className={`w-8 h-8 animate-spin ${isDarkMode ? 'text-gray-300' : 'text-gray-500'}`} />
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {(invitations || []).map((invitation) => (
+            <li
+              key={invitation.id}
+              className={`rounded-xl p-3 border flex flex-wrap items-center justify-between gap-2 text-sm ${
+                isDarkMode ? 'border-gray-700 text-gray-200' : 'border-gray-100 text-gray-700'
+              }`}
+            >
+              <span>
+                {invitation.jobDescription.filename || 'job description'} · {invitation.candidateEmail || 'any account'}
+              </span>
+              <span className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {invitationState(invitation)}
+                {invitation.status === 'open' && ` · expires ${invitation.expiresAt.toDate().toLocaleString()}`}
+              </span>
+              {invitation.challengeId && (
+                <button onClick={onShowHistory} className="text-xs underline">View in My Challenges</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, BookOpen, History, Loader2, Plus, Search } from 'lucide-react';
+import type { User } from 'firebase/auth';
+import { useTheme } from '../theme/ThemeContext';
+import {
+  JD_LEVELS,
+  JobDescription,
+  JobDescriptionVersion,
+  matchesJobDescription,
+  saveJobDescription,
+  subscribeToJobDescriptions,
+  subscribeToJobDescriptionVersions,
+} from '../jobDescriptions';
+
+interface JobDescriptionLibraryProps {
+  user: User;
+  isAdmin: boolean;
+  onBack: () => void;
+}
+
+interface Draft {
+  title: string;
+  team: string;
+  level: string;
+  tags: string;
+  text: string;
+}
+
+const EMPTY_DRAFT: Draft = { title: '', team: '', level: '', tags: '', text: '' };
+
+function toDraft(jd: Pick<JobDescription, 'title' | 'team' | 'level' | 'tags' | 'text'>): Draft {
+  return { title: jd.title, team: jd.team, level: jd.level ?? '', tags: jd.tags.join(', '), text: jd.text };
+}
+
+// Shared job description library: browse, create, edit (each save is a new version) and restore.
+export default function JobDescriptionLibrary({ user, isAdmin, onBack }: Readonly<JobDescriptionLibraryProps>) {
+  const { isDarkMode } = useTheme();
+  const [items, setItems] = useState<JobDescription[] | null>(null);
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [file, setFile] = useState<File | null>(null);
+  const [versions, setVersions] = useState<JobDescriptionVersion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsub = subscribeToJobDescriptions(
+      (next) => {
+        setItems(next);
+        setError(null);
+      },
+      (err) => setError(err.message || 'Failed to load the job description library.')
+    );
+    return () => unsub();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setVersions([]);
+      return;
+    }
+    const unsub = subscribeToJobDescriptionVersions(selectedId, setVersions, (err) => setError(err.message));
+    return () => unsub();
+  }, [selectedId]);
+
+  const filtered = useMemo(() => (items || []).filter((jd) => matchesJobDescription(jd, search)), [items, search]);
+  const selected = items?.find((jd) => jd.id === selectedId) ?? null;
+  const canEdit = !selected || selected.ownerUid === user.uid || isAdmin;
+
+  const select = (jd: JobDescription | null) => {
+    setSelectedId(jd?.id ?? null);
+    setDraft(jd ? toDraft(jd) : EMPTY_DRAFT);
+    setFile(null);
+    setNotice(null);
+    setError(null);
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const formData = new FormData();
+      if (selectedId) formData.append('id', selectedId);
+      formData.append('title', draft.title);
+      formData.append('team', draft.team);
+      formData.append('level', draft.level);
+      formData.append('tags', draft.tags);
+      // An imported file replaces the typed text
+      if (file) formData.append('job_description', file);
+      else formData.append('text', draft.text);
+      const saved = await saveJobDescription(formData, await user.getIdToken());
+      setSelectedId(saved.id);
+      setFile(null);
+      setNotice(`Saved as version ${saved.version}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the job description.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = `w-full rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' : 'border-gray-300'
+  }`;
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`rounded-2xl shadow-2xl p-8 max-w-6xl w-full border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'
+    }`}>
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onBack}
+          className={`text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <h1 className={`text-2xl font-bold flex items-center ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+          <BookOpen className="w-6 h-6 mr-2" />
+          Job Descriptions
+        </h1>
+        <button
+          onClick={() => select(null)}
+          className={`text-sm px-3 py-1 rounded-md border flex items-center ${isDarkMode ? 'text-gray-200 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          New
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <div>
+          <div className="relative mb-3">
+            <Search className={`w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 ${mutedText}`} />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Title, team, level or tag"
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+          {items === null && !error ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className={`w-6 h-6 animate-spin ${mutedText}`} />
+            </div>
+          ) : (
+            <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {filtered.map((jd) => (
+                <li key={jd.id}>
+                  <button
+                    onClick={() => select(jd)}
+                    className={`w-full text-left rounded-lg p-3 border text-sm transition-colors ${
+                      jd.id === selectedId
+                        ? isDarkMode ? 'border-blue-400 bg-gray-700' : 'border-blue-300 bg-blue-50'
+                        : isDarkMode ? 'border-gray-700 hover:bg-gray-700' : 'border-gray-100 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className={`font-semibold block ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>{jd.title}</span>
+                    <span className={`text-xs ${mutedText}`}>
+                      {[jd.team, jd.level, `v${jd.version}`].filter(Boolean).join(' · ')}
+                    </span>
+                    {jd.tags.length > 0 && <span className={`block text-xs mt-1 ${mutedText}`}>{jd.tags.join(', ')}</span>}
+                  </button>
+                </li>
+              ))}
+              {filtered.length === 0 && <p className={`text-sm text-center py-6 ${mutedText}`}>No job descriptions found.</p>}
+            </ul>
+          )}
+        </div>
+
+        <div className="md:col-span-2 space-y-3">
+          <div className="grid md:grid-cols-3 gap-3">
+            <input
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              placeholder="Title"
+              disabled={!canEdit}
+              className={`md:col-span-3 ${inputClass}`}
+            />
+            <input
+              value={draft.team}
+              onChange={(e) => setDraft({ ...draft, team: e.target.value })}
+              placeholder="Team"
+              disabled={!canEdit}
+              className={inputClass}
+            />
+            <select
+              value={draft.level}
+              onChange={(e) => setDraft({ ...draft, level: e.target.value })}
+              disabled={!canEdit}
+              className={inputClass}
+            >
+              <option value="">Level</option>
+              {JD_LEVELS.map((level) => <option key={level} value={level}>{level}</option>)}
+            </select>
+            <input
+              value={draft.tags}
+              onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+              placeholder="Tags, comma separated"
+              disabled={!canEdit}
+              className={inputClass}
+            />
+          </div>
+          <textarea
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            placeholder="Full job description"
+            rows={14}
+            disabled={!canEdit || !!file}
+            className={inputClass}
+          />
+          {canEdit && (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <label className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                Import text from a file:{' '}
+                <input
+                  type="file"
+                  accept=".pdf,.doc,.docx,.txt"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  className="text-sm"
+                />
+              </label>
+              <button
+                onClick={save}
+                disabled={isSaving || !draft.title.trim() || (!draft.text.trim() && !file)}
+                className="text-white px-6 py-2 rounded-lg font-medium disabled:cursor-not-allowed flex items-center"
+                style={{ backgroundColor: isSaving || !draft.title.trim() || (!draft.text.trim() && !file) ? '#9CA3AF' : '#00A287' }}
+              >
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {selectedId ? 'Save new version' : 'Add to library'}
+              </button>
+            </div>
+          )}
+          {!canEdit && <p className={`text-sm ${mutedText}`}>Only the author or an admin can edit this job description.</p>}
+          {notice && <p className="text-sm text-green-600">{notice}</p>}
+
+          {versions.length > 0 && (
+            <div className={`rounded-xl p-4 border ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+              <h3 className={`font-semibold flex items-center mb-2 text-sm ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                <History className="w-4 h-4 mr-2" />
+                Version history
+              </h3>
+              <ul className="space-y-1 text-sm">
+                {versions.map((v) => (
+                  <li key={v.id} className={`flex items-center justify-between ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                    <span>
+                      v{v.version} · {v.title}
+                      <span className={`ml-2 text-xs ${mutedText}`}>{v.createdAt ? v.createdAt.toDate().toLocaleString() : 'Saving...'}</span>
+                    </span>
+                    {canEdit && v.version !== selected?.version && (
+                      <button onClick={() => setDraft(toDraft(v))} className="text-xs underline">
+                        Load into editor
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
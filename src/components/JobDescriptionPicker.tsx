@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useTheme } from '../theme/ThemeContext';
+import { JobDescription, subscribeToJobDescriptions } from '../jobDescriptions';
+
+interface JobDescriptionPickerProps {
+  value: string | null;
+  onChange: (id: string | null) => void;
+  id?: string;
+}
+
+// Dropdown of saved job descriptions, used instead of uploading a file.
+export default function JobDescriptionPicker({ value, onChange, id }: Readonly<JobDescriptionPickerProps>) {
+  const { isDarkMode } = useTheme();
+  const [items, setItems] = useState<JobDescription[]>([]);
+
+  useEffect(() => {
+    // An empty library and a failed load look the same here; the library view shows errors
+    const unsub = subscribeToJobDescriptions(setItems, () => setItems([]));
+    return () => unsub();
+  }, []);
+
+  return (
+    <select
+      id={id}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className={`w-full rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 border ${
+        isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-100' : 'border-gray-300'
+      }`}
+    >
+      <option value="">{items.length ? 'Or pick a saved job description' : 'No saved job descriptions yet'}</option>
+      {items.map((jd) => (
+        <option key={jd.id} value={jd.id}>
+          {jd.title}{jd.team ? ` · ${jd.team}` : ''}{jd.level ? ` · ${jd.level}` : ''} (v{jd.version})
+        </option>
+      ))}
+    </select>
+  );
+}
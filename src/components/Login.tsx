@@ -3,6 +3,7 @@ import { auth } from '../firebase';
 import {
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
+  sendEmailVerification,
   setPersistence,
   browserLocalPersistence,
   browserSessionPersistence,
@@ -10,13 +11,19 @@ import {
 import { useTheme } from '../theme/ThemeContext';
 import { Loader2 } from 'lucide-react';
 
-export default function Login() {
+interface LoginProps {
+  initialMode?: 'signin' | 'signup';
+  // Shown above the form, e.g. when arriving from an invitation link
+  notice?: string;
+}
+
+export default function Login({ initialMode = 'signin', notice }: Readonly<LoginProps>) {
   const { isDarkMode } = useTheme();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [mode, setMode] = useState<'signin' | 'signup'>(initialMode);
   const [showPassword, setShowPassword] = useState(false);
   const [remember, setRemember] = useState(true);
 
@@ -35,7 +42,9 @@ export default function Login() {
       if (mode === 'signin') {
         await signInWithEmailAndPassword(auth, email, password);
       } else {
-        await createUserWithEmailAndPassword(auth, email, password); // will set up later
+        const { user } = await createUserWithEmailAndPassword(auth, email, password);
+        // Candidates only see their challenges once the email is verified (see firestore.rules)
+        await sendEmailVerification(user).catch(() => {/* can be resent later */});
       }
     } catch (e: any) {
       const msg = mapAuthError(e);
@@ -76,9 +85,16 @@ export default function Login() {
         <h1 className={`text-3xl font-bold mb-1 ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>ARIES</h1>
         <p className={`text-lg font-medium mb-3 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>Automated Routines for Intelligent Engineering Scenarios</p>
         <hr className={isDarkMode ? 'border-gray-700' : 'border-gray-200'} />
-        <h2 className={`pt-3 text-2xl font-bold ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>Sign in</h2>
+        <h2 className={`pt-3 text-2xl font-bold ${isDarkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+          {mode === 'signin' ? 'Sign in' : 'Create an account'}
+        </h2>
         <p className={`text-sm mt-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>Use your email and password to continue</p>
       </div>
+      {notice && (
+        <div className={`mb-4 p-3 rounded-lg text-sm border ${
+          isDarkMode ? 'bg-blue-900/30 border-blue-700 text-blue-200' : 'bg-blue-50 border-blue-200 text-blue-700'
+        }`}>{notice}</div>
+      )}
       {error && (
         <div className={`mb-4 p-3 rounded-lg text-sm border ${
           isDarkMode ? 'bg-red-900/30 border-red-700 text-red-200' : 'bg-red-50 border-red-200 text-red-700'
@@ -139,6 +155,19 @@ export default function Login() {
           {mode === 'signin' ? 'Sign in' : 'Create account'}
         </button>
       </form>
+      <p className={`mt-4 text-center text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+        {mode === 'signin' ? "Don't have an account? " : 'Already have an account? '}
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === 'signin' ? 'signup' : 'signin');
+            setError(null);
+          }}
+          className="underline font-medium"
+        >
+          {mode === 'signin' ? 'Create one' : 'Sign in'}
+        </button>
+      </p>
     </div>
   );
 }
@@ -0,0 +1,75 @@
+import { collection, limit, onSnapshot, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Mirrors the evaluation documents written by functions/src/evaluation.ts
+export interface SandboxRun {
+  command: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  output: string;
+}
+
+export interface EvaluationReport {
+  overallScore: number;
+  summary: string;
+  criteria: { criterion: string; weight: number; score: number; evidence: string[] }[];
+  hiddenBugs: { file: string; location: string; fixed: boolean; evidence: string }[];
+  diff: {
+    baseSha: string;
+    headSha: string;
+    commits: number;
+    filesChanged: number;
+    insertions: number;
+    deletions: number;
+    truncated: boolean;
+  };
+  tests: { install: SandboxRun | null; run: SandboxRun } | null;
+  model: string;
+}
+
+export interface Evaluation {
+  id: string;
+  status: 'running' | 'succeeded' | 'failed';
+  report: EvaluationReport | null;
+  error: { message: string; code: string } | null;
+  createdAt: Timestamp | null;
+}
+
+const EVALUATION_LIMIT = 10;
+
+// Live list of evaluation runs for one challenge, newest first.
+export function subscribeToEvaluations(
+  challengeId: string,
+  uid: string,
+  onChange: (evaluations: Evaluation[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(
+    collection(db, 'challenges', challengeId, 'evaluations'),
+    where('ownerUid', '==', uid),
+    orderBy('createdAt', 'desc'),
+    limit(EVALUATION_LIMIT)
+  );
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as Evaluation)),
+    onError
+  );
+}
+
+export async function requestEvaluation(challengeId: string, idToken: string): Promise<void> {
+  const functionUrl = import.meta.env.VITE_EVALUATE_FUNCTION_URL || 'https://us-central1-all-your-base-3a55f.cloudfunctions.net/evaluateSubmission';
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${idToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ challengeId }),
+  });
+  if (response.status === 401) {
+    throw new Error('Your session has expired. Please sign out and sign in again.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+  }
+}
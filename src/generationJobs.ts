@@ -0,0 +1,55 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Mirrors the job documents written by functions/src/jobs.ts
+export const JOB_STAGES = ['parsing', 'generating', 'creatingRepo', 'pushing', 'invitingCandidate'] as const;
+export type JobStage = (typeof JOB_STAGES)[number];
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type StageStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export const STAGE_LABELS: Record<JobStage, string> = {
+  parsing: 'Reading your documents',
+  generating: 'Generating the challenge',
+  creatingRepo: 'Creating the repository',
+  pushing: 'Pushing starter files',
+  invitingCandidate: 'Inviting the candidate',
+};
+
+export interface CandidateAccessSummary {
+  username: string;
+  state: 'pending' | 'active' | 'revoked' | 'failed' | 'unsupported';
+  error: string | null;
+}
+
+export interface GenerationJob {
+  id: string;
+  status: JobStatus;
+  currentStage: JobStage | null;
+  stages: Record<JobStage, { status: StageStatus }>;
+  result: {
+    challengeId: string;
+    challengeLink: string;
+    githubRepo: string;
+    candidateAccess: CandidateAccessSummary | null;
+  } | null;
+  error: {
+    stage: JobStage | null;
+    message: string;
+    code: string;
+  } | null;
+}
+
+export function subscribeToJob(
+  jobId: string,
+  onChange: (job: GenerationJob) => void,
+  onError: (err: Error) => void
+): () => void {
+  return onSnapshot(
+    doc(db, 'generationJobs', jobId),
+    (snap) => {
+      if (snap.exists()) onChange({ id: snap.id, ...snap.data() } as GenerationJob);
+    },
+    onError
+  );
+}
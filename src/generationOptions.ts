@@ -0,0 +1,39 @@
+// Mirrors functions/src/generationOptions.ts
+export const DIFFICULTIES = ['junior', 'mid', 'senior', 'staff'] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export const FOCUS_AREAS = ['frontend', 'backend', 'data', 'debugging', 'systemDesign'] as const;
+export type FocusArea = (typeof FOCUS_AREAS)[number];
+
+export const FOCUS_AREA_LABELS: Record<FocusArea, string> = {
+  frontend: 'Frontend',
+  backend: 'Backend',
+  data: 'Data',
+  debugging: 'Debugging',
+  systemDesign: 'System design',
+};
+
+export interface GenerationOptions {
+  difficulty: Difficulty | null;
+  durationMinutes: number | null;
+  resumeWeight: number;
+  focusAreas: FocusArea[];
+  seedBugs: boolean;
+}
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  difficulty: null,
+  durationMinutes: null,
+  resumeWeight: 40,
+  focusAreas: [],
+  seedBugs: true,
+};
+
+// Adds the multipart fields parseGenerationOptions reads; unset options are left to the server defaults.
+export function appendGenerationOptions(formData: FormData, options: GenerationOptions): void {
+  if (options.difficulty) formData.append('difficulty', options.difficulty);
+  if (options.durationMinutes) formData.append('duration_minutes', String(options.durationMinutes));
+  formData.append('resume_weight', String(options.resumeWeight));
+  if (options.focusAreas.length) formData.append('focus_areas', options.focusAreas.join(','));
+  formData.append('seed_bugs', String(options.seedBugs));
+}
@@ -0,0 +1,72 @@
+import { collection, limit, onSnapshot, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Mirrors the documents written by functions/src/invitations.ts
+export interface Invitation {
+  id: string;
+  ownerUid: string;
+  candidateEmail: string | null;
+  jobDescription: { filename: string | null };
+  status: 'open' | 'accepted';
+  expiresAt: Timestamp;
+  acceptedAt: Timestamp | null;
+  jobId: string | null;
+  challengeId: string | null;
+  createdAt: Timestamp | null;
+}
+
+const INVITATION_LIMIT = 50;
+
+// The query parameter the candidate's link carries the token in
+export const INVITE_PARAM = 'invite';
+
+export function invitationLink(token: string): string {
+  return `${window.location.origin}/?${INVITE_PARAM}=${encodeURIComponent(token)}`;
+}
+
+// Live list of the interviewer's invitations, newest first.
+export function subscribeToInvitations(
+  uid: string,
+  onChange: (invitations: Invitation[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(
+    collection(db, 'invitations'),
+    where('ownerUid', '==', uid),
+    orderBy('createdAt', 'desc'),
+    limit(INVITATION_LIMIT)
+  );
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as Invitation)),
+    onError
+  );
+}
+
+export function createInvitation(formData: FormData, idToken: string): Promise<{ invitationId: string; token: string; expiresAt: string }> {
+  const functionUrl = import.meta.env.VITE_CREATE_INVITATION_FUNCTION_URL || 'https://us-central1-all-your-base-3a55f.cloudfunctions.net/createChallengeInvitation';
+  return postForm(functionUrl, formData, idToken);
+}
+
+// The same idempotency key on a retry returns the job from the first attempt instead of failing
+// on the already-accepted invitation.
+export function acceptInvitation(formData: FormData, idToken: string, idempotencyKey: string): Promise<{ jobId: string }> {
+  const functionUrl = import.meta.env.VITE_ACCEPT_INVITATION_FUNCTION_URL || 'https://us-central1-all-your-base-3a55f.cloudfunctions.net/acceptChallengeInvitation';
+  return postForm(functionUrl, formData, idToken, { 'Idempotency-Key': idempotencyKey });
+}
+
+async function postForm<T>(functionUrl: string, formData: FormData, idToken: string, headers: Record<string, string> = {}): Promise<T> {
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${idToken}`, ...headers },
+    body: formData,
+  });
+  if (response.status === 401) {
+    throw new Error('Your session has expired. Please sign out and sign in again.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,90 @@
+import { collection, limit, onSnapshot, orderBy, query, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Mirrors the library documents written by functions/src/jobDescriptions.ts
+export const JD_LEVELS = ['intern', 'junior', 'mid', 'senior', 'staff', 'principal'] as const;
+export type JobDescriptionLevel = (typeof JD_LEVELS)[number];
+
+export interface JobDescription {
+  id: string;
+  ownerUid: string;
+  title: string;
+  team: string;
+  level: JobDescriptionLevel | null;
+  tags: string[];
+  text: string;
+  version: number;
+  updatedAt: Timestamp | null;
+}
+
+export interface JobDescriptionVersion {
+  id: string;
+  version: number;
+  title: string;
+  team: string;
+  level: JobDescriptionLevel | null;
+  tags: string[];
+  text: string;
+  editedBy: string;
+  createdAt: Timestamp | null;
+}
+
+// Recorded on challenges generated from a library entry
+export interface JobDescriptionSource {
+  id: string;
+  version: number;
+  title: string;
+}
+
+const LIBRARY_LIMIT = 200;
+
+// Live list of the whole library, most recently edited first.
+export function subscribeToJobDescriptions(
+  onChange: (items: JobDescription[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(collection(db, 'jobDescriptions'), orderBy('updatedAt', 'desc'), limit(LIBRARY_LIMIT));
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as JobDescription)),
+    onError
+  );
+}
+
+// Live version history of one entry, newest first.
+export function subscribeToJobDescriptionVersions(
+  id: string,
+  onChange: (versions: JobDescriptionVersion[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(collection(db, 'jobDescriptions', id, 'versions'), orderBy('version', 'desc'));
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as JobDescriptionVersion)),
+    onError
+  );
+}
+
+export function matchesJobDescription(jd: JobDescription, term: string): boolean {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return true;
+  return [jd.title, jd.team, jd.level, ...jd.tags].some((field) => field?.toLowerCase().includes(needle));
+}
+
+// Creates an entry (no `id` field) or saves a new version of one
+export async function saveJobDescription(formData: FormData, idToken: string): Promise<{ id: string; version: number }> {
+  const functionUrl = import.meta.env.VITE_SAVE_JOB_DESCRIPTION_FUNCTION_URL || 'https://us-central1-all-your-base-3a55f.cloudfunctions.net/saveJobDescription';
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${idToken}` },
+    body: formData,
+  });
+  if (response.status === 401) {
+    throw new Error('Your session has expired. Please sign out and sign in again.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,105 @@
+import { collection, getDocs, limit, onSnapshot, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Mirrors the `llmUsage` rollups and `llmCalls` records written by functions/src/llmCalls.ts.
+// Admins only (see firestore.rules).
+export type UsageScope = 'month' | 'user' | 'jobDescription';
+
+export interface LlmUsageRollup {
+  id: string;
+  scope: UsageScope;
+  // The month for month rollups, the uid for users, the library id (or "upload") for job descriptions
+  key: string;
+  month: string;
+  title?: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  unpricedCalls: number;
+}
+
+export interface LlmCallRecord {
+  id: string;
+  purpose: 'generation' | 'evaluation';
+  ownerUid: string;
+  jobId: string | null;
+  challengeId: string | null;
+  jobDescriptionId: string | null;
+  provider: string;
+  model: string;
+  requestedModel: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number | null;
+  month: string;
+  createdAt: Timestamp | null;
+}
+
+const MONTH_LIMIT = 24;
+const EXPORT_LIMIT = 5000;
+
+// Live month-level totals, newest month first.
+export function subscribeToMonthlyUsage(
+  onChange: (months: LlmUsageRollup[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(collection(db, 'llmUsage'), where('scope', '==', 'month'), orderBy('month', 'desc'), limit(MONTH_LIMIT));
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as LlmUsageRollup)),
+    onError
+  );
+}
+
+// Live per-user and per-job-description rollups for one month.
+export function subscribeToUsageBreakdown(
+  month: string,
+  onChange: (rollups: LlmUsageRollup[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(collection(db, 'llmUsage'), where('month', '==', month));
+  return onSnapshot(
+    q,
+    (snap) => onChange(
+      snap.docs
+        .map((d) => ({ id: d.id, ...d.data() }) as LlmUsageRollup)
+        .filter((r) => r.scope !== 'month')
+        .sort((a, b) => b.costUsd - a.costUsd)
+    ),
+    onError
+  );
+}
+
+export async function fetchLlmCalls(month: string): Promise<LlmCallRecord[]> {
+  const q = query(collection(db, 'llmCalls'), where('month', '==', month), orderBy('createdAt', 'asc'), limit(EXPORT_LIMIT));
+  const snap = await getDocs(q);
+  return snap.docs.map((d) => ({ id: d.id, ...d.data() }) as LlmCallRecord);
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+const CSV_COLUMNS = [
+  'createdAt', 'purpose', 'ownerUid', 'ownerEmail', 'jobId', 'challengeId', 'jobDescriptionId',
+  'provider', 'model', 'requestedModel', 'promptTokens', 'completionTokens', 'latencyMs', 'costUsd',
+] as const;
+
+// One row per call; `emails` maps uids to addresses for readability.
+export function llmCallsToCsv(calls: LlmCallRecord[], emails: Record<string, string>): string {
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = calls.map((call) => {
+    const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      ...call,
+      createdAt: call.createdAt?.toDate().toISOString() ?? '',
+      ownerEmail: emails[call.ownerUid] ?? '',
+    };
+    return CSV_COLUMNS.map((column) => escape(row[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
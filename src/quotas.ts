@@ -0,0 +1,49 @@
+// Mirrors functions/src/quotas.ts
+export const QUOTA_METRICS = ['generations', 'tokens', 'repos'] as const;
+export type QuotaMetric = (typeof QUOTA_METRICS)[number];
+export type QuotaLimits = Record<QuotaMetric, number>;
+
+export const QUOTA_LABELS: Record<QuotaMetric, string> = {
+  generations: 'generations',
+  tokens: 'tokens',
+  repos: 'repos',
+};
+
+export interface QuotaStatus {
+  day: string;
+  resetsAt: string;
+  limits: QuotaLimits;
+  usage: QuotaLimits;
+  remaining: QuotaLimits;
+  overridden: boolean;
+}
+
+export async function fetchQuota(idToken: string): Promise<QuotaStatus> {
+  const functionUrl = import.meta.env.VITE_GET_QUOTA_FUNCTION_URL || 'https://us-central1-all-your-base-3a55f.cloudfunctions.net/getQuota';
+  const response = await fetch(functionUrl, { headers: { Authorization: `Bearer ${idToken}` } });
+  if (response.status === 401) {
+    throw new Error('Your session has expired. Please sign out and sign in again.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Admins only; null limits return the user to the defaults.
+export async function setUserQuota(email: string, limits: Partial<QuotaLimits> | null, idToken: string): Promise<void> {
+  const functionUrl = import.meta.env.VITE_SET_QUOTA_FUNCTION_URL || 'https://us-central1-all-your-base-3a55f.cloudfunctions.net/setUserQuota';
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${idToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, limits }),
+  });
+  if (response.status === 401) {
+    throw new Error('Your session has expired. Please sign out and sign in again.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+  }
+}
@@ -0,0 +1,56 @@
+import { collection, limit, onSnapshot, orderBy, query, Timestamp } from 'firebase/firestore';
+import { User } from 'firebase/auth';
+import { db } from './firebase';
+import type { QuotaLimits } from './quotas';
+
+// Mirrors functions/src/roles.ts; the role is a custom claim on the ID token.
+export const ROLES = ['admin', 'interviewer', 'candidate'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Role assignments mirrored in `users/{uid}` by the setUserRole function (quota overrides by setUserQuota)
+export interface UserRoleRecord {
+  uid: string;
+  email: string;
+  role: Role | null;
+  assignedBy: string;
+  updatedAt: Timestamp | null;
+  // Set by setUserQuota; missing or null means the default daily limits
+  quotaLimits?: Partial<QuotaLimits> | null;
+}
+
+const USER_LIMIT = 200;
+
+// Pass forceRefresh after a role change so the new claim is picked up without signing out.
+export async function fetchRole(user: User, forceRefresh = false): Promise<Role | null> {
+  const { claims } = await user.getIdTokenResult(forceRefresh);
+  return (ROLES as readonly unknown[]).includes(claims.role) ? (claims.role as Role) : null;
+}
+
+// Live list of users with a role record, most recently changed first. Admins only.
+export function subscribeToUsers(
+  onChange: (users: UserRoleRecord[]) => void,
+  onError: (err: Error) => void
+): () => void {
+  const q = query(collection(db, 'users'), orderBy('updatedAt', 'desc'), limit(USER_LIMIT));
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ uid: d.id, ...d.data() }) as UserRoleRecord)),
+    onError
+  );
+}
+
+export async function setUserRole(email: string, role: Role | null, idToken: string): Promise<void> {
+  const functionUrl = import.meta.env.VITE_SET_ROLE_FUNCTION_URL || 'https://us-central1-all-your-base-3a55f.cloudfunctions.net/setUserRole';
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${idToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, role }),
+  });
+  if (response.status === 401) {
+    throw new Error('Your session has expired. Please sign out and sign in again.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+  }
+}
@@ -0,0 +1,100 @@
+// Entry point of the challenge test runner job (see functions/src/testRunner.ts). Downloads the
+// candidate's workspace, runs the challenge's test command as an unprivileged user with a time
+// limit and writes the exit code and output tail to the result URL. The signed URLs are removed
+// from the environment before any candidate code starts, and the test process runs under a
+// different uid, so it cannot read them from this process either.
+import { spawn } from "node:child_process";
+import { existsSync, mkdirSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const { WORKSPACE_URL, RESULT_URL, TEST_COMMAND } = process.env;
+const timeoutMs = (Number(process.env.TEST_TIMEOUT_SECONDS) || 180) * 1000;
+const maxOutputBytes = Number(process.env.MAX_OUTPUT_BYTES) || 64 * 1024;
+for (const name of ["WORKSPACE_URL", "RESULT_URL", "TEST_COMMAND"]) delete process.env[name];
+
+// "nobody" in the image
+const SANDBOX_UID = 65534;
+const ROOT = "/sandbox";
+const REPO = join(ROOT, "repo");
+const HOME = join(ROOT, "home");
+
+async function main() {
+  if (!WORKSPACE_URL || !RESULT_URL || !TEST_COMMAND) throw new Error("WORKSPACE_URL, RESULT_URL and TEST_COMMAND are required.");
+  mkdirSync(REPO, { recursive: true });
+  mkdirSync(HOME, { recursive: true });
+
+  const response = await fetch(WORKSPACE_URL);
+  if (!response.ok) throw new Error(`Workspace download failed with ${response.status}`);
+  const archive = join(ROOT, "workspace.tar.gz");
+  await writeFile(archive, Buffer.from(await response.arrayBuffer()));
+  await run(`tar -xzf ${archive} -C ${REPO} && rm ${archive} && chown -R ${SANDBOX_UID}:${SANDBOX_UID} ${ROOT}`, { asRoot: true });
+
+  const started = Date.now();
+  let result;
+  if (existsSync(join(REPO, ".runner-wheels"))) {
+    result = await run("python3 -m pip install -q --user --no-index --find-links .runner-wheels -r requirements.txt");
+  }
+  if (!result || result.exitCode === 0) result = await run(TEST_COMMAND);
+  result.durationMs = Date.now() - started;
+  await report({ command: TEST_COMMAND, ...result });
+}
+
+function run(command, { asRoot = false } = {}) {
+  return new Promise((resolve) => {
+    const child = spawn("sh", ["-c", command], {
+      cwd: asRoot ? ROOT : REPO,
+      detached: true,
+      ...(asRoot ? {} : { uid: SANDBOX_UID, gid: SANDBOX_UID }),
+      env: { PATH: process.env.PATH, HOME, TMPDIR: HOME, CI: "1", NODE_ENV: "test" },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let output = "";
+    const capture = (chunk) => {
+      output += chunk.toString("utf-8");
+      if (output.length > maxOutputBytes * 2) output = output.slice(-maxOutputBytes);
+    };
+    child.stdout.on("data", capture);
+    child.stderr.on("data", capture);
+
+    let timedOut = false;
+    // Negative pid signals the whole group, so test runners cannot leave children behind.
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid, "SIGKILL");
+      } catch {
+        // already exited
+      }
+    }, timeoutMs);
+    let finished = false;
+    const finish = (exitCode) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      resolve({ exitCode, timedOut, output: output.slice(-maxOutputBytes) });
+    };
+    child.on("error", (err) => {
+      output += `\n${err.message}`;
+      finish(null);
+    });
+    child.on("close", finish);
+  });
+}
+
+async function report(result) {
+  const response = await fetch(RESULT_URL, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(result),
+  });
+  if (!response.ok) throw new Error(`Result upload failed with ${response.status}`);
+}
+
+main().catch(async (err) => {
+  console.error(err);
+  // Report the failure too, so the evaluation fails with a reason instead of waiting out its deadline.
+  await report({ command: TEST_COMMAND, exitCode: null, timedOut: false, durationMs: 0, output: `Test runner error: ${err.message}` })
+    .catch(() => undefined);
+  process.exit(1);
+});